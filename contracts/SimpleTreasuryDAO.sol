@@ -1,7 +1,7 @@
 // SPDX-License-Identifier: MIT
 pragma solidity ^0.8.24;
 
-import { FHE, euint64, externalEuint64 } from "@fhevm/solidity/lib/FHE.sol";
+import { FHE, ebool, euint64, externalEbool } from "@fhevm/solidity/lib/FHE.sol";
 import { SepoliaConfig } from "@fhevm/solidity/config/ZamaConfig.sol";
 
 /// @title Simple DAO Treasury with Encrypted Votes
@@ -23,15 +23,41 @@ contract SimpleTreasuryDAO is SepoliaConfig {
         bool finalized;
     }
 
+    /// @notice Plaintext view of a proposal, as returned by getProposals
+    struct ProposalInfo {
+        uint256 id;
+        string title;
+        string description;
+        address proposer;
+        uint256 amount;
+        address recipient;
+        uint256 deadline;
+        bool finalized;
+    }
+
+    /// @notice Publicly decrypted result of a finalized proposal
+    struct Tally {
+        bool published;
+        uint64 yesVotes;
+        uint64 noVotes;
+        bool passed;
+    }
+
     Proposal[] public proposals;
     mapping(address => uint256) public deposits; // plaintext deposits
     mapping(uint256 => mapping(address => bool)) public hasVoted;
 
+    mapping(uint256 => Tally) public tallies;
+    mapping(uint256 => bool) public decryptionPending;
+    mapping(uint256 => uint256) private decryptionRequests; // oracle request id => proposal id
+
     event Deposited(address indexed user, uint256 amount);
     event Withdrawn(address indexed user, uint256 amount);
     event ProposalCreated(uint256 indexed id, string title, uint256 amount, address recipient);
     event VoteCast(uint256 indexed proposalId, address indexed voter);
     event ProposalFinalized(uint256 indexed id);
+    event TallyDecryptionRequested(uint256 indexed id, uint256 requestId);
+    event TallyPublished(uint256 indexed id, uint64 yesVotes, uint64 noVotes, bool passed);
 
     error InsufficientDeposit();
     error AlreadyVoted();
@@ -43,6 +69,7 @@ contract SimpleTreasuryDAO is SepoliaConfig {
     error InvalidDeadline();
     error NotFinalized();
     error AlreadyFinalized();
+    error UnknownDecryptionRequest();
 
     constructor(uint256 _minDepositToVote) {
         owner = msg.sender;
@@ -101,10 +128,11 @@ contract SimpleTreasuryDAO is SepoliaConfig {
         return proposalId;
     }
 
-    /// @notice Cast an encrypted vote (1 = yes, 0 = no)
+    /// @notice Cast an encrypted ballot (true = yes, false = no)
+    /// @dev An ebool has exactly two values, so every ballot counts once for one side
     function vote(
         uint256 proposalId,
-        externalEuint64 encryptedVote,
+        externalEbool encryptedSupport,
         bytes calldata inputProof
     ) external {
         if (proposalId >= proposals.length) revert ProposalNotFound();
@@ -114,16 +142,14 @@ contract SimpleTreasuryDAO is SepoliaConfig {
         Proposal storage proposal = proposals[proposalId];
         if (block.timestamp > proposal.deadline) revert VotingEnded();
 
-        // Decrypt the vote input (should be 0 or 1)
-        euint64 voteValue = FHE.fromExternal(encryptedVote, inputProof);
+        ebool support = FHE.fromExternal(encryptedSupport, inputProof);
 
-        // Add to yes votes: if vote == 1, add 1, else add 0
-        euint64 yesIncrement = FHE.select(FHE.eq(voteValue, FHE.asEuint64(1)), FHE.asEuint64(1), FHE.asEuint64(0));
-        proposal.encryptedYesVotes = FHE.add(proposal.encryptedYesVotes, yesIncrement);
+        euint64 one = FHE.asEuint64(1);
+        euint64 zero = FHE.asEuint64(0);
 
-        // Add to no votes: if vote == 0, add 1, else add 0
-        euint64 noIncrement = FHE.select(FHE.eq(voteValue, FHE.asEuint64(0)), FHE.asEuint64(1), FHE.asEuint64(0));
-        proposal.encryptedNoVotes = FHE.add(proposal.encryptedNoVotes, noIncrement);
+        // Exactly one of the two tallies is incremented
+        proposal.encryptedYesVotes = FHE.add(proposal.encryptedYesVotes, FHE.select(support, one, zero));
+        proposal.encryptedNoVotes = FHE.add(proposal.encryptedNoVotes, FHE.select(support, zero, one));
 
         FHE.allowThis(proposal.encryptedYesVotes);
         FHE.allowThis(proposal.encryptedNoVotes);
@@ -133,7 +159,7 @@ contract SimpleTreasuryDAO is SepoliaConfig {
         emit VoteCast(proposalId, msg.sender);
     }
 
-    /// @notice Finalize proposal to allow vote decryption (owner or proposer only)
+    /// @notice Finalize proposal and request public decryption of the tally (owner or proposer only)
     function finalizeProposal(uint256 proposalId) external {
         if (proposalId >= proposals.length) revert ProposalNotFound();
 
@@ -150,7 +176,38 @@ contract SimpleTreasuryDAO is SepoliaConfig {
         FHE.allow(proposal.encryptedNoVotes, owner);
         FHE.allow(proposal.encryptedNoVotes, proposal.proposer);
 
+        // Ask the decryption oracle to publish the counts through onTallyDecrypted
+        bytes32[] memory cts = new bytes32[](2);
+        cts[0] = FHE.toBytes32(proposal.encryptedYesVotes);
+        cts[1] = FHE.toBytes32(proposal.encryptedNoVotes);
+        uint256 requestId = FHE.requestDecryption(cts, this.onTallyDecrypted.selector);
+
+        decryptionRequests[requestId] = proposalId;
+        decryptionPending[proposalId] = true;
+
         emit ProposalFinalized(proposalId);
+        emit TallyDecryptionRequested(proposalId, requestId);
+    }
+
+    /// @notice Decryption oracle callback: store the plaintext tally and outcome
+    function onTallyDecrypted(
+        uint256 requestId,
+        bytes memory cleartexts,
+        bytes memory decryptionProof
+    ) external {
+        // Reverts unless the KMS signed these cleartexts for this request
+        FHE.checkSignatures(requestId, cleartexts, decryptionProof);
+
+        uint256 proposalId = decryptionRequests[requestId];
+        if (!decryptionPending[proposalId]) revert UnknownDecryptionRequest();
+
+        (uint64 yesVotes, uint64 noVotes) = abi.decode(cleartexts, (uint64, uint64));
+        bool passed = yesVotes > noVotes;
+
+        decryptionPending[proposalId] = false;
+        tallies[proposalId] = Tally({ published: true, yesVotes: yesVotes, noVotes: noVotes, passed: passed });
+
+        emit TallyPublished(proposalId, yesVotes, noVotes, passed);
     }
 
     /// @notice Get encrypted yes votes (only decryptable after finalization)
@@ -190,6 +247,20 @@ contract SimpleTreasuryDAO is SepoliaConfig {
         return (p.id, p.title, p.description, p.proposer, p.amount, p.recipient, p.deadline, p.finalized);
     }
 
+    /// @notice Get up to `limit` proposals starting at `offset` (empty past the end)
+    function getProposals(uint256 offset, uint256 limit) external view returns (ProposalInfo[] memory page) {
+        if (offset >= proposals.length) return new ProposalInfo[](0);
+
+        uint256 remaining = proposals.length - offset;
+        uint256 end = offset + (limit < remaining ? limit : remaining);
+
+        page = new ProposalInfo[](end - offset);
+        for (uint256 i = offset; i < end; i++) {
+            Proposal storage p = proposals[i];
+            page[i - offset] = ProposalInfo(p.id, p.title, p.description, p.proposer, p.amount, p.recipient, p.deadline, p.finalized);
+        }
+    }
+
     /// @notice Update minimum deposit requirement (owner only)
     function updateMinDeposit(uint256 newMinDeposit) external {
         require(msg.sender == owner, "Not owner");
@@ -1,4 +1,6 @@
 require("@nomicfoundation/hardhat-toolbox");
+// Mock FHE coprocessor, ACL and decryption oracle on the Hardhat networks
+require("@fhevm/hardhat-plugin");
 
 /** @type import('hardhat/config').HardhatUserConfig */
 module.exports = {
@@ -13,6 +15,14 @@ module.exports = {
     }
   },
   networks: {
+    hardhat: {
+      chainId: 31337
+    },
+    // `npx hardhat node` with the fhevm mock; the frontend uses it with VITE_DAO_CHAIN_ID=31337
+    localhost: {
+      url: process.env.LOCAL_RPC_URL || "http://127.0.0.1:8545",
+      chainId: 31337
+    },
     sepolia: {
       url: process.env.SEPOLIA_RPC_URL || "https://ethereum-sepolia-rpc.publicnode.com",
       accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
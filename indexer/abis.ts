@@ -0,0 +1,8 @@
+import { Interface } from "ethers";
+import { simpleTreasuryDaoAbi, treasuryDaoAbi } from "../src/config/abis.ts";
+
+/** contracts/SimpleTreasuryDAO.sol */
+export const DAO_INTERFACE = new Interface(simpleTreasuryDaoAbi);
+
+/** contracts/TreasuryDAO.sol (amounts stay encrypted) */
+export const TREASURY_INTERFACE = new Interface(treasuryDaoAbi);
@@ -0,0 +1,88 @@
+import registry from "../deployments.json" with { type: "json" };
+
+interface Deployment {
+  address: string;
+  blockNumber?: number;
+}
+
+// Sepolia
+const DEFAULT_CHAIN_ID = 11155111;
+
+/**
+ * First block to scan: INDEXER_START_BLOCK, else the earliest recorded
+ * deployment block. Without either, scanning would start at genesis, so refuse.
+ */
+const resolveStartBlock = (chainId: number, deployments: (Deployment | undefined)[]) => {
+  if (process.env.INDEXER_START_BLOCK) {
+    return numberFromEnv("INDEXER_START_BLOCK", 0);
+  }
+
+  const recorded = deployments.filter((deployment): deployment is Deployment => deployment !== undefined);
+  const missing = recorded.filter((deployment) => deployment.blockNumber === undefined);
+  if (missing.length > 0) {
+    throw new Error(
+      `No deployment block recorded for ${missing.map(({ address }) => address).join(", ")} on chain ${chainId}; ` +
+        "set INDEXER_START_BLOCK or run `npx hardhat run scripts/record-deploy-block.cjs --network sepolia`"
+    );
+  }
+  return Math.min(...recorded.map((deployment) => deployment.blockNumber!));
+};
+
+const numberFromEnv = (name: string, fallback: number) => {
+  const value = process.env[name];
+  if (!value) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative integer, got "${value}"`);
+  }
+  return parsed;
+};
+
+export interface IndexerConfig {
+  chainId: number;
+  rpcUrl: string;
+  /** SimpleTreasuryDAO address */
+  daoAddress: string;
+  /** Confidential TreasuryDAO address; skipped when empty */
+  treasuryAddress: string;
+  /** First block to scan (the deployment block) */
+  startBlock: number;
+  /** Blocks requested per eth_getLogs call */
+  batchSize: number;
+  /** Blocks behind head considered safe from reorgs */
+  confirmations: number;
+  pollIntervalMs: number;
+  dbPath: string;
+  port: number;
+}
+
+/**
+ * Settings from the environment; contract addresses and the start block
+ * default to deployments.json for INDEXER_CHAIN_ID
+ */
+export const loadConfig = (): IndexerConfig => {
+  const chainId = numberFromEnv("INDEXER_CHAIN_ID", DEFAULT_CHAIN_ID);
+  const deployments: Record<string, Deployment | undefined> =
+    (registry as Record<string, Record<string, Deployment>>)[String(chainId)] ?? {};
+  const dao = process.env.DAO_ADDRESS ? { address: process.env.DAO_ADDRESS } : deployments.SimpleTreasuryDAO;
+  const treasury = process.env.CONFIDENTIAL_TREASURY_ADDRESS
+    ? { address: process.env.CONFIDENTIAL_TREASURY_ADDRESS }
+    : deployments.TreasuryDAO;
+
+  if (!dao) {
+    throw new Error(`No SimpleTreasuryDAO deployment for chain ${chainId}; add it to deployments.json or set DAO_ADDRESS`);
+  }
+
+  return {
+    chainId,
+    rpcUrl: process.env.INDEXER_RPC_URL || process.env.SEPOLIA_RPC_URL || "https://ethereum-sepolia-rpc.publicnode.com",
+    daoAddress: dao.address,
+    treasuryAddress: treasury?.address ?? "",
+    startBlock: resolveStartBlock(chainId, [dao, treasury]),
+    batchSize: numberFromEnv("INDEXER_BATCH_SIZE", 2_000),
+    confirmations: numberFromEnv("INDEXER_CONFIRMATIONS", 2),
+    pollIntervalMs: numberFromEnv("INDEXER_POLL_MS", 12_000),
+    dbPath: process.env.INDEXER_DB_PATH || "indexer/data/indexer.sqlite",
+    port: numberFromEnv("INDEXER_PORT", 4000),
+  };
+};
@@ -0,0 +1,290 @@
+import { mkdirSync } from "node:fs";
+import { dirname } from "node:path";
+import { DatabaseSync } from "node:sqlite";
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS events (
+    contract TEXT NOT NULL,
+    block_number INTEGER NOT NULL,
+    tx_hash TEXT NOT NULL,
+    log_index INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    proposal_id INTEGER,
+    account TEXT,
+    args TEXT NOT NULL,
+    PRIMARY KEY (tx_hash, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS events_by_proposal ON events (contract, proposal_id, name);
+  CREATE INDEX IF NOT EXISTS events_by_account ON events (account, block_number);
+  CREATE INDEX IF NOT EXISTS events_by_block ON events (block_number);
+
+  CREATE TABLE IF NOT EXISTS proposals (
+    contract TEXT NOT NULL,
+    id INTEGER NOT NULL,
+    title TEXT NOT NULL,
+    description TEXT NOT NULL,
+    proposer TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    deadline INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    PRIMARY KEY (contract, id)
+  );
+`;
+
+// Checkpoint blocks kept for reorg detection beyond those holding events
+const BLOCK_HISTORY = 256;
+
+export interface BlockRow {
+  number: number;
+  hash: string;
+  timestamp: number;
+}
+
+export interface EventRow {
+  contract: string;
+  blockNumber: number;
+  txHash: string;
+  logIndex: number;
+  name: string;
+  proposalId: number | null;
+  account: string | null;
+  /** Decoded event arguments; uint values as decimal strings */
+  args: Record<string, string | boolean>;
+}
+
+export interface ProposalRow {
+  contract: string;
+  id: number;
+  title: string;
+  description: string;
+  proposer: string;
+  /** Wei, as a decimal string */
+  amount: string;
+  recipient: string;
+  deadline: number;
+  blockNumber: number;
+}
+
+export interface IndexedProposal extends Omit<ProposalRow, "contract" | "blockNumber"> {
+  finalized: boolean;
+  decryptionPending: boolean;
+  tally: { yes: number; no: number; passed: boolean } | null;
+  voteCount: number;
+  hasVoted?: boolean;
+}
+
+export interface ActivityEntry {
+  contract: string;
+  event: string;
+  proposalId: number | null;
+  account: string | null;
+  args: Record<string, string | boolean>;
+  blockNumber: number;
+  timestamp: number;
+  txHash: string;
+}
+
+export interface Batch {
+  blocks: BlockRow[];
+  events: EventRow[];
+  proposals: ProposalRow[];
+}
+
+type Row = Record<string, unknown>;
+
+const toActivity = (row: Row): ActivityEntry => ({
+  contract: row.contract as string,
+  event: row.name as string,
+  proposalId: row.proposal_id as number | null,
+  account: row.account as string | null,
+  args: JSON.parse(row.args as string),
+  blockNumber: row.block_number as number,
+  timestamp: row.timestamp as number,
+  txHash: row.tx_hash as string,
+});
+
+/** `decryptsTallies` is false for legacy DAOs, whose tallies are never published */
+const toProposal = (row: Row, decryptsTallies: boolean): IndexedProposal => {
+  const finalized = Boolean(row.finalized);
+  const tallyArgs = row.tally ? JSON.parse(row.tally as string) : null;
+  const tally = tallyArgs
+    ? { yes: Number(tallyArgs.yesVotes), no: Number(tallyArgs.noVotes), passed: Boolean(tallyArgs.passed) }
+    : null;
+
+  return {
+    id: row.id as number,
+    title: row.title as string,
+    description: row.description as string,
+    proposer: row.proposer as string,
+    amount: row.amount as string,
+    recipient: row.recipient as string,
+    deadline: row.deadline as number,
+    finalized,
+    decryptionPending: decryptsTallies && finalized && !tally,
+    tally,
+    voteCount: row.vote_count as number,
+    ...(row.has_voted === undefined ? {} : { hasVoted: Boolean(row.has_voted) }),
+  };
+};
+
+const PROPOSAL_COLUMNS = `
+  p.*,
+  EXISTS (SELECT 1 FROM events e WHERE e.contract = p.contract AND e.proposal_id = p.id AND e.name = 'ProposalFinalized') AS finalized,
+  (SELECT e.args FROM events e WHERE e.contract = p.contract AND e.proposal_id = p.id AND e.name = 'TallyPublished') AS tally,
+  (SELECT COUNT(*) FROM events e WHERE e.contract = p.contract AND e.proposal_id = p.id AND e.name = 'VoteCast') AS vote_count
+`;
+
+/**
+ * SQLite persistence for indexed logs. Every row records the block it came
+ * from, so a reorg is undone by deleting everything above the common ancestor.
+ */
+export const createStore = (path: string) => {
+  if (path !== ":memory:") {
+    mkdirSync(dirname(path), { recursive: true });
+  }
+  const db = new DatabaseSync(path);
+  db.exec("PRAGMA journal_mode = WAL");
+  db.exec(SCHEMA);
+
+  const transaction = (work: () => void) => {
+    db.exec("BEGIN");
+    try {
+      work();
+      db.exec("COMMIT");
+    } catch (error) {
+      db.exec("ROLLBACK");
+      throw error;
+    }
+  };
+
+  const insertBlock = db.prepare("INSERT OR REPLACE INTO blocks (number, hash, timestamp) VALUES (?, ?, ?)");
+  const insertEvent = db.prepare(`
+    INSERT OR REPLACE INTO events (contract, block_number, tx_hash, log_index, name, proposal_id, account, args)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  const insertProposal = db.prepare(`
+    INSERT OR REPLACE INTO proposals (contract, id, title, description, proposer, amount, recipient, deadline, block_number)
+    VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+
+  return {
+    lastBlock: (): number | null => {
+      const row = db.prepare("SELECT MAX(number) AS number FROM blocks").get() as Row | undefined;
+      return (row?.number as number | null) ?? null;
+    },
+
+    /** Most recent stored blocks, newest first */
+    recentBlocks: (limit: number): BlockRow[] =>
+      db.prepare("SELECT number, hash, timestamp FROM blocks ORDER BY number DESC LIMIT ?").all(limit) as unknown as BlockRow[],
+
+    saveBatch: ({ blocks, events, proposals }: Batch) =>
+      transaction(() => {
+        for (const block of blocks) {
+          insertBlock.run(block.number, block.hash, block.timestamp);
+        }
+        for (const event of events) {
+          insertEvent.run(
+            event.contract,
+            event.blockNumber,
+            event.txHash,
+            event.logIndex,
+            event.name,
+            event.proposalId,
+            event.account,
+            JSON.stringify(event.args)
+          );
+        }
+        for (const proposal of proposals) {
+          insertProposal.run(
+            proposal.contract,
+            proposal.id,
+            proposal.title,
+            proposal.description,
+            proposal.proposer,
+            proposal.amount,
+            proposal.recipient,
+            proposal.deadline,
+            proposal.blockNumber
+          );
+        }
+
+        const top = blocks.at(-1)?.number;
+        if (top !== undefined) {
+          db.prepare(`
+            DELETE FROM blocks
+            WHERE number < ? AND number NOT IN (SELECT block_number FROM events)
+          `).run(top - BLOCK_HISTORY);
+        }
+      }),
+
+    /** Drop everything indexed after `blockNumber` */
+    rollbackTo: (blockNumber: number) =>
+      transaction(() => {
+        db.prepare("DELETE FROM events WHERE block_number > ?").run(blockNumber);
+        db.prepare("DELETE FROM proposals WHERE block_number > ?").run(blockNumber);
+        db.prepare("DELETE FROM blocks WHERE number > ?").run(blockNumber);
+      }),
+
+    listProposals: (contract: string, account?: string, decryptsTallies = true): IndexedProposal[] => {
+      if (!account) {
+        return (db.prepare(`SELECT ${PROPOSAL_COLUMNS} FROM proposals p WHERE p.contract = ? ORDER BY p.id`)
+          .all(contract) as Row[]).map((row) => toProposal(row, decryptsTallies));
+      }
+      return (db.prepare(`
+        SELECT ${PROPOSAL_COLUMNS},
+          EXISTS (SELECT 1 FROM events e WHERE e.contract = p.contract AND e.proposal_id = p.id AND e.name = 'VoteCast' AND e.account = ?) AS has_voted
+        FROM proposals p WHERE p.contract = ? ORDER BY p.id
+      `).all(account.toLowerCase(), contract) as Row[]).map((row) => toProposal(row, decryptsTallies));
+    },
+
+    getProposal: (contract: string, id: number, decryptsTallies = true): IndexedProposal | null => {
+      const row = db.prepare(`SELECT ${PROPOSAL_COLUMNS} FROM proposals p WHERE p.contract = ? AND p.id = ?`)
+        .get(contract, id) as Row | undefined;
+      return row ? toProposal(row, decryptsTallies) : null;
+    },
+
+    /** Events of one proposal with the given names, oldest first */
+    proposalEvents: (contract: string, id: number, names: string[]): ActivityEntry[] =>
+      (db.prepare(`
+        SELECT e.*, b.timestamp FROM events e JOIN blocks b ON b.number = e.block_number
+        WHERE e.contract = ? AND e.proposal_id = ? AND e.name IN (${names.map(() => "?").join(", ")})
+        ORDER BY e.block_number, e.log_index
+      `).all(contract, id, ...names) as Row[]).map(toActivity),
+
+    /** Deposits and withdrawals, optionally for one account, newest first */
+    deposits: (contract: string, account?: string): ActivityEntry[] =>
+      (db.prepare(`
+        SELECT e.*, b.timestamp FROM events e JOIN blocks b ON b.number = e.block_number
+        WHERE e.contract = ? AND e.name IN ('Deposited', 'Withdrawn') AND (? IS NULL OR e.account = ?)
+        ORDER BY e.block_number DESC, e.log_index DESC
+      `).all(contract, account?.toLowerCase() ?? null, account?.toLowerCase() ?? null) as Row[]).map(toActivity),
+
+    /** Everything an address did across the indexed contracts, newest first */
+    activity: (account: string, limit: number): ActivityEntry[] =>
+      (db.prepare(`
+        SELECT e.*, b.timestamp FROM events e JOIN blocks b ON b.number = e.block_number
+        WHERE e.account = ?
+        ORDER BY e.block_number DESC, e.log_index DESC
+        LIMIT ?
+      `).all(account.toLowerCase(), limit) as Row[]).map(toActivity),
+
+    /** Every event of a contract, oldest first */
+    contractEvents: (contract: string): ActivityEntry[] =>
+      (db.prepare(`
+        SELECT e.*, b.timestamp FROM events e JOIN blocks b ON b.number = e.block_number
+        WHERE e.contract = ?
+        ORDER BY e.block_number, e.log_index
+      `).all(contract) as Row[]).map(toActivity),
+
+    close: () => db.close(),
+  };
+};
+
+export type Store = ReturnType<typeof createStore>;
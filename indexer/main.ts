@@ -0,0 +1,29 @@
+import { JsonRpcProvider } from "ethers";
+import { loadConfig } from "./config.ts";
+import { createStore } from "./db.ts";
+import { createApiServer } from "./server.ts";
+import { createSyncer } from "./sync.ts";
+
+const config = loadConfig();
+const store = createStore(config.dbPath);
+const provider = new JsonRpcProvider(config.rpcUrl, config.chainId, { staticNetwork: true });
+const syncer = createSyncer(config, provider, store);
+const server = createApiServer(config, store, syncer);
+const controller = new AbortController();
+
+const shutdown = () => {
+  controller.abort();
+  server.close();
+  provider.destroy();
+  store.close();
+  process.exit(0);
+};
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
+
+server.listen(config.port, () => {
+  console.log(`📡 Indexer API listening on http://localhost:${config.port}`);
+  console.log(`   DAO: ${config.daoAddress}${config.treasuryAddress ? `, treasury: ${config.treasuryAddress}` : ""}`);
+});
+
+syncer.run(controller.signal);
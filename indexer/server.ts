@@ -0,0 +1,78 @@
+import { createServer, type ServerResponse } from "node:http";
+import type { IndexerConfig } from "./config.ts";
+import type { Store } from "./db.ts";
+import type { Syncer } from "./sync.ts";
+
+// Most entries returned by /accounts/:address/activity
+const MAX_ACTIVITY = 200;
+
+type Handler = (params: string[], query: URLSearchParams) => unknown;
+
+const ADDRESS = "(0x[0-9a-fA-F]{40})";
+
+const send = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, {
+    "Content-Type": "application/json",
+    // The frontend is served from another origin
+    "Access-Control-Allow-Origin": "*",
+  });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * Read-only REST API over the indexed data. Addresses are returned lowercase
+ * and wei amounts as decimal strings.
+ */
+export const createApiServer = (config: IndexerConfig, store: Store, syncer: Pick<Syncer, "isLegacy">) => {
+  const dao = config.daoAddress.toLowerCase();
+  const treasury = config.treasuryAddress.toLowerCase();
+  // Legacy DAOs never publish tallies, so their finalized proposals are not pending
+  const decryptsTallies = () => !syncer.isLegacy();
+
+  const routes: [RegExp, Handler][] = [
+    [/^\/health$/, () => ({ lastBlock: store.lastBlock(), dao, treasury: treasury || null })],
+    [/^\/proposals$/, (_, query) => store.listProposals(dao, query.get("account") ?? undefined, decryptsTallies())],
+    [/^\/proposals\/(\d+)$/, ([id]) => store.getProposal(dao, Number(id), decryptsTallies())],
+    [/^\/proposals\/(\d+)\/voters$/, ([id]) =>
+      store.proposalEvents(dao, Number(id), ["VoteCast"]).map(({ account, blockNumber, timestamp, txHash }) => ({
+        voter: account,
+        blockNumber,
+        timestamp,
+        txHash,
+      })),
+    ],
+    [/^\/deposits$/, (_, query) => store.deposits(dao, query.get("account") ?? undefined)],
+    [new RegExp(`^/accounts/${ADDRESS}/activity$`), ([address], query) =>
+      store.activity(address, Math.min(Number(query.get("limit")) || MAX_ACTIVITY, MAX_ACTIVITY)),
+    ],
+    [/^\/treasury\/events$/, () => (treasury ? store.contractEvents(treasury) : [])],
+  ];
+
+  return createServer((req, res) => {
+    if (req.method !== "GET") {
+      send(res, 405, { error: "Method not allowed" });
+      return;
+    }
+
+    const url = new URL(req.url ?? "/", "http://localhost");
+    for (const [pattern, handler] of routes) {
+      const match = pattern.exec(url.pathname);
+      if (!match) continue;
+
+      try {
+        const body = handler(match.slice(1), url.searchParams);
+        if (body === null) {
+          send(res, 404, { error: "Not found" });
+        } else {
+          send(res, 200, body);
+        }
+      } catch (error) {
+        console.error(`${url.pathname} failed:`, error);
+        send(res, 500, { error: "Internal error" });
+      }
+      return;
+    }
+
+    send(res, 404, { error: "Not found" });
+  });
+};
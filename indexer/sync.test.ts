@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { describe, it } from "node:test";
+import { makeError, type JsonRpcProvider, type Log } from "ethers";
+import { DAO_INTERFACE } from "./abis.ts";
+import type { IndexerConfig } from "./config.ts";
+import { createStore } from "./db.ts";
+import { createSyncer } from "./sync.ts";
+
+const DAO = "0x0000000000000000000000000000000000000da0";
+const ALICE = "0x00000000000000000000000000000000000a11ce";
+
+const config: IndexerConfig = {
+  chainId: 31337,
+  rpcUrl: "",
+  daoAddress: DAO,
+  treasuryAddress: "",
+  startBlock: 1,
+  batchSize: 100,
+  confirmations: 0,
+  pollIntervalMs: 0,
+  dbPath: ":memory:",
+  port: 0,
+};
+
+const blockHash = (number: number, fork: string) => `0x${fork.repeat(2)}${number.toString(16).padStart(62, "0")}`;
+
+const deposit = (blockNumber: number, fork: string, amount: bigint): Log => {
+  const { topics, data } = DAO_INTERFACE.encodeEventLog("Deposited", [ALICE, amount]);
+  return {
+    address: DAO,
+    topics,
+    data,
+    blockNumber,
+    blockHash: blockHash(blockNumber, fork),
+    transactionHash: blockHash(blockNumber, "f"),
+    index: 0,
+  } as unknown as Log;
+};
+
+/**
+ * Minimal stand-in for the RPC: blocks 1..head whose hashes depend on the fork
+ * each block belongs to, and the DAO's logs on those blocks
+ */
+const createChain = ({ legacy = false } = {}) => {
+  const chain = {
+    head: 10,
+    forks: new Map<number, string>(),
+    logs: [] as Log[],
+  };
+  const forkOf = (number: number) => chain.forks.get(number) ?? "a";
+
+  const provider = {
+    getBlockNumber: async () => chain.head,
+    getBlock: async (number: number) =>
+      number <= chain.head ? { hash: blockHash(number, forkOf(number)), timestamp: 1_000 + number } : null,
+    getLogs: async ({ fromBlock, toBlock }: { fromBlock: number; toBlock: number }) =>
+      chain.logs.filter((log) => log.blockNumber >= fromBlock && log.blockNumber <= toBlock),
+    call: async ({ data }: { data: string }) => {
+      if (DAO_INTERFACE.parseTransaction({ data })?.name !== "getProposals") {
+        throw new Error("Unexpected call");
+      }
+      if (legacy) {
+        throw makeError("execution reverted", "CALL_EXCEPTION", {
+          action: "call",
+          data: "0x",
+          reason: null,
+          transaction: { to: DAO, data },
+          invocation: null,
+          revert: null,
+        });
+      }
+      return DAO_INTERFACE.encodeFunctionResult("getProposals", [[]]);
+    },
+  };
+
+  return { chain, provider: provider as unknown as JsonRpcProvider };
+};
+
+describe("createSyncer", () => {
+  it("rolls back to the common ancestor after a reorg", async () => {
+    const { chain, provider } = createChain();
+    const store = createStore(":memory:");
+    const syncer = createSyncer(config, provider, store);
+
+    chain.logs = [deposit(3, "a", 1n), deposit(8, "a", 2n)];
+    assert.equal(await syncer.syncOnce(), 10);
+    assert.deepEqual(store.deposits(DAO).map(({ blockNumber }) => blockNumber), [8, 3]);
+
+    // Blocks 7 onwards are replaced: the deposit moves from block 8 to 9
+    for (let number = 7; number <= 11; number++) chain.forks.set(number, "b");
+    chain.head = 11;
+    chain.logs = [deposit(3, "a", 1n), deposit(9, "b", 2n)];
+
+    assert.equal(await syncer.syncOnce(), 11);
+    const deposits = store.deposits(DAO);
+    assert.deepEqual(deposits.map(({ blockNumber }) => blockNumber), [9, 3]);
+    assert.equal(deposits[0].txHash, blockHash(9, "f"));
+    assert.equal(store.recentBlocks(1)[0].hash, blockHash(11, "b"));
+    store.close();
+  });
+
+  it("detects legacy DAOs by their reverting getProposals", async () => {
+    const { provider: legacyProvider } = createChain({ legacy: true });
+    const legacy = createSyncer(config, legacyProvider, createStore(":memory:"));
+    assert.equal(legacy.isLegacy(), false);
+    await legacy.syncOnce();
+    assert.equal(legacy.isLegacy(), true);
+
+    const { provider } = createChain();
+    const current = createSyncer(config, provider, createStore(":memory:"));
+    await current.syncOnce();
+    assert.equal(current.isLegacy(), false);
+  });
+});
@@ -0,0 +1,207 @@
+import { Contract, isError, type Interface, type JsonRpcProvider, type Log, type LogDescription } from "ethers";
+import { DAO_INTERFACE, TREASURY_INTERFACE } from "./abis.ts";
+import type { IndexerConfig } from "./config.ts";
+import type { BlockRow, EventRow, ProposalRow, Store } from "./db.ts";
+
+// How far back to look for a common ancestor before rescanning from the start
+const REORG_WINDOW = 64;
+
+interface IndexedContract {
+  address: string;
+  events: Interface;
+}
+
+/** Argument naming the proposal an event belongs to, per event */
+const PROPOSAL_ARG: Record<string, string> = {
+  ProposalCreated: "id",
+  VoteCast: "proposalId",
+  ProposalFinalized: "id",
+  TallyDecryptionRequested: "id",
+  TallyPublished: "id",
+  Voted: "id",
+  Executed: "id",
+  ProposalCancelled: "id",
+};
+
+/** Argument naming the address an event belongs to, per event */
+const ACCOUNT_ARG: Record<string, string> = {
+  Deposited: "user",
+  Withdrawn: "user",
+  VoteCast: "voter",
+  Voted: "voter",
+  Executed: "recipient",
+  MemberAdded: "member",
+  MemberRemoved: "member",
+};
+
+const toArgs = (parsed: LogDescription) =>
+  Object.fromEntries(
+    parsed.fragment.inputs.map((input, i) => {
+      const value = parsed.args[i];
+      if (typeof value === "boolean") return [input.name, value];
+      return [input.name, input.type === "address" ? String(value).toLowerCase() : String(value)];
+    })
+  ) as Record<string, string | boolean>;
+
+/**
+ * Scans the DAO contracts' logs into the store, one batch of blocks at a time.
+ * Each pass first checks the newest stored block hashes against the chain and
+ * rolls back to the common ancestor when they differ.
+ */
+export const createSyncer = (config: IndexerConfig, provider: JsonRpcProvider, store: Store) => {
+  const dao = new Contract(config.daoAddress, DAO_INTERFACE, provider);
+  const contracts: IndexedContract[] = [
+    { address: config.daoAddress.toLowerCase(), events: DAO_INTERFACE },
+    ...(config.treasuryAddress ? [{ address: config.treasuryAddress.toLowerCase(), events: TREASURY_INTERFACE }] : []),
+  ];
+
+  // Whether the DAO predates getProposals and the tally decryption, detected as
+  // dao-client does: getProposals reverts. Only a definite revert is remembered.
+  let legacy: boolean | undefined;
+  const detectLegacy = async () => {
+    if (legacy !== undefined) return;
+    try {
+      await dao.getProposals.staticCall(0, 0);
+      legacy = false;
+    } catch (error) {
+      if (!isError(error, "CALL_EXCEPTION")) throw error;
+      legacy = true;
+    }
+  };
+
+  const getBlockRow = async (number: number): Promise<BlockRow> => {
+    const block = await provider.getBlock(number);
+    if (!block?.hash) {
+      throw new Error(`Block ${number} not available from the RPC`);
+    }
+    return { number, hash: block.hash, timestamp: block.timestamp };
+  };
+
+  const handleReorg = async () => {
+    const stored = store.recentBlocks(REORG_WINDOW);
+    for (const block of stored) {
+      const onChain = await provider.getBlock(block.number);
+      if (onChain?.hash === block.hash) {
+        if (block !== stored[0]) {
+          console.warn(`Reorg detected, rolling back to block ${block.number}`);
+          store.rollbackTo(block.number);
+        }
+        return;
+      }
+    }
+    if (stored.length > 0) {
+      console.warn(`Reorg deeper than ${REORG_WINDOW} stored blocks, rescanning from ${config.startBlock}`);
+      store.rollbackTo(config.startBlock - 1);
+    }
+  };
+
+  const decode = (log: Log): EventRow | null => {
+    const contract = contracts.find(({ address }) => address === log.address.toLowerCase());
+    const parsed = contract?.events.parseLog({ topics: [...log.topics], data: log.data });
+    if (!contract || !parsed) return null;
+
+    const args = toArgs(parsed);
+    const proposalArg = PROPOSAL_ARG[parsed.name];
+    const accountArg = ACCOUNT_ARG[parsed.name];
+
+    return {
+      contract: contract.address,
+      blockNumber: log.blockNumber,
+      txHash: log.transactionHash,
+      logIndex: log.index,
+      name: parsed.name,
+      proposalId: proposalArg ? Number(args[proposalArg]) : null,
+      account: accountArg ? (args[accountArg] as string) : null,
+      args,
+    };
+  };
+
+  // ProposalCreated on SimpleTreasuryDAO carries no proposer or description;
+  // read them from the contract (they never change after creation)
+  const loadProposal = async (event: EventRow): Promise<ProposalRow> => {
+    const proposal = await dao.getProposal(event.proposalId);
+    return {
+      contract: event.contract,
+      id: Number(proposal.id),
+      title: proposal.title,
+      description: proposal.description,
+      proposer: proposal.proposer.toLowerCase(),
+      amount: proposal.amount.toString(),
+      recipient: proposal.recipient.toLowerCase(),
+      deadline: Number(proposal.deadline),
+      blockNumber: event.blockNumber,
+    };
+  };
+
+  const indexRange = async (fromBlock: number, toBlock: number) => {
+    const logs = await provider.getLogs({
+      address: contracts.map(({ address }) => address),
+      fromBlock,
+      toBlock,
+    });
+
+    const blockNumbers = new Set([...logs.map((log) => log.blockNumber), toBlock]);
+    const blocks = await Promise.all([...blockNumbers].sort((a, b) => a - b).map(getBlockRow));
+
+    // A log from a block that has since been replaced means a reorg mid-scan; retry next pass
+    const hashes = new Map(blocks.map((block) => [block.number, block.hash]));
+    if (logs.some((log) => hashes.get(log.blockNumber) !== log.blockHash)) {
+      throw new Error(`Chain reorganised while scanning blocks ${fromBlock}-${toBlock}`);
+    }
+
+    const events = logs.map(decode).filter((event): event is EventRow => event !== null);
+    // Only SimpleTreasuryDAO proposals are stored; TreasuryDAO ones stay raw events
+    const created = events.filter(
+      (event) => event.contract === contracts[0].address && event.name === "ProposalCreated"
+    );
+    const proposals = await Promise.all(created.map(loadProposal));
+
+    // The proposer is the account behind ProposalCreated
+    for (const event of created) {
+      event.account = proposals.find((proposal) => proposal.id === event.proposalId)?.proposer ?? null;
+    }
+
+    store.saveBatch({ blocks, events, proposals });
+    return events.length;
+  };
+
+  /** Index everything up to the confirmed head; returns the last indexed block */
+  const syncOnce = async () => {
+    await detectLegacy();
+    await handleReorg();
+
+    const head = (await provider.getBlockNumber()) - config.confirmations;
+    let from = Math.max((store.lastBlock() ?? config.startBlock - 1) + 1, config.startBlock);
+
+    while (from <= head) {
+      const to = Math.min(from + config.batchSize - 1, head);
+      const count = await indexRange(from, to);
+      if (count > 0) {
+        console.log(`Indexed ${count} events in blocks ${from}-${to}`);
+      }
+      from = to + 1;
+    }
+    return store.lastBlock();
+  };
+
+  /** Sync repeatedly until `signal` aborts; errors are logged and retried */
+  const run = async (signal: AbortSignal) => {
+    while (!signal.aborted) {
+      try {
+        await syncOnce();
+      } catch (error) {
+        console.error("Sync failed, retrying:", error instanceof Error ? error.message : error);
+      }
+      await new Promise((resolve) => setTimeout(resolve, config.pollIntervalMs));
+    }
+  };
+
+  return {
+    syncOnce,
+    run,
+    /** False until the first pass has checked the contract */
+    isLegacy: () => legacy === true,
+  };
+};
+
+export type Syncer = ReturnType<typeof createSyncer>;
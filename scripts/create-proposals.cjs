@@ -1,7 +1,9 @@
 const hre = require("hardhat");
+const { requireDeploymentAddress } = require("./deployments.cjs");
 
 async function main() {
-  const CONTRACT_ADDRESS = "0x0719D5CA99339B9b78917EE7b644065B33a77850";
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const CONTRACT_ADDRESS = requireDeploymentAddress(chainId, "SimpleTreasuryDAO");
 
   console.log("🚀 Creating test proposals on SimpleTreasuryDAO...");
   console.log("Contract:", CONTRACT_ADDRESS);
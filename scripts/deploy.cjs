@@ -1,6 +1,5 @@
 const hre = require("hardhat");
-const fs = require("fs");
-const path = require("path");
+const { saveDeployment } = require("./deployments.cjs");
 
 async function main() {
   console.log("🚀 Deploying SimpleTreasuryDAO...");
@@ -17,25 +16,25 @@ async function main() {
   console.log("✅ SimpleTreasuryDAO deployed to:", address);
   console.log("   Min deposit to vote:", hre.ethers.formatEther(minDeposit), "ETH");
 
-  // Save deployment info
-  const deploymentInfo = {
-    address: address,
-    minDepositToVote: minDeposit.toString(),
-    network: "sepolia",
-    deployedAt: new Date().toISOString()
-  };
-
-  const outputPath = path.join(__dirname, "../deployed-address.json");
-  fs.writeFileSync(outputPath, JSON.stringify(deploymentInfo, null, 2));
-  console.log("📝 Deployment info saved to:", outputPath);
-
-  // Wait for block confirmations
+  // Wait for block confirmations (a local node only mines on demand)
+  const local = hre.network.name === "hardhat" || hre.network.name === "localhost";
   console.log("⏳ Waiting for block confirmations...");
-  await dao.deploymentTransaction().wait(5);
+  const receipt = await dao.deploymentTransaction().wait(local ? 1 : 5);
   console.log("✅ Contract confirmed!");
 
-  console.log("\n📋 Contract verification command:");
-  console.log(`npx hardhat verify --network sepolia ${address} "${minDeposit}"`);
+  // Record the deployment for the frontend, indexer and seed scripts
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  saveDeployment(chainId, "SimpleTreasuryDAO", {
+    address,
+    blockNumber: receipt.blockNumber,
+    deployedAt: new Date().toISOString(),
+  });
+  console.log(`📝 Saved to deployments.json (chain ${chainId})`);
+
+  if (!local) {
+    console.log("\n📋 Contract verification command:");
+    console.log(`npx hardhat verify --network ${hre.network.name} ${address} "${minDeposit}"`);
+  }
 }
 
 main()
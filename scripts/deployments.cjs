@@ -0,0 +1,40 @@
+const fs = require("fs");
+const path = require("path");
+
+// Contract addresses by chain ID, shared with the frontend (src/config/deployments.ts)
+const REGISTRY_PATH = path.join(__dirname, "../deployments.json");
+
+// Env vars that override the registry, e.g. to point a script at a fork
+const ADDRESS_OVERRIDES = {
+  SimpleTreasuryDAO: "DAO_ADDRESS",
+  TreasuryDAO: "CONFIDENTIAL_TREASURY_ADDRESS",
+};
+
+function readRegistry() {
+  if (!fs.existsSync(REGISTRY_PATH)) return {};
+  return JSON.parse(fs.readFileSync(REGISTRY_PATH, "utf8"));
+}
+
+function getDeployment(chainId, name) {
+  const override = process.env[ADDRESS_OVERRIDES[name]];
+  if (override) return { address: override };
+  return readRegistry()[String(chainId)]?.[name];
+}
+
+function requireDeploymentAddress(chainId, name) {
+  const deployment = getDeployment(chainId, name);
+  if (!deployment) {
+    throw new Error(
+      `No ${name} deployment for chain ${chainId} in deployments.json; deploy it first or set ${ADDRESS_OVERRIDES[name]}`
+    );
+  }
+  return deployment.address;
+}
+
+function saveDeployment(chainId, name, deployment) {
+  const registry = readRegistry();
+  registry[String(chainId)] = { ...registry[String(chainId)], [name]: deployment };
+  fs.writeFileSync(REGISTRY_PATH, JSON.stringify(registry, null, 2) + "\n");
+}
+
+module.exports = { getDeployment, requireDeploymentAddress, saveDeployment };
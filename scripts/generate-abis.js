@@ -0,0 +1,65 @@
+// Writes src/config/abis.ts from the Hardhat compile artifacts.
+// Run `npx hardhat compile` first. With --check, exits non-zero instead of
+// writing when the committed file differs from what the artifacts produce.
+import fs from 'fs/promises';
+import path from 'path';
+
+const projectRoot = path.resolve(path.dirname(new URL(import.meta.url).pathname), '..');
+const artifactsDir = path.resolve(projectRoot, 'artifacts/contracts');
+const outputPath = path.resolve(projectRoot, 'src/config/abis.ts');
+
+// Contract name -> exported constant
+const CONTRACTS = {
+  SimpleTreasuryDAO: 'simpleTreasuryDaoAbi',
+  TreasuryDAO: 'treasuryDaoAbi',
+};
+
+async function readAbi(contractName) {
+  const artifactPath = path.join(artifactsDir, `${contractName}.sol`, `${contractName}.json`);
+  try {
+    const artifact = JSON.parse(await fs.readFile(artifactPath, 'utf8'));
+    return artifact.abi;
+  } catch (error) {
+    throw new Error(`Cannot read ${path.relative(projectRoot, artifactPath)} (run \`npx hardhat compile\`): ${error.message}`);
+  }
+}
+
+async function render() {
+  const sections = [];
+  for (const [contractName, exportName] of Object.entries(CONTRACTS)) {
+    const abi = await readAbi(contractName);
+    sections.push(
+      `/** ABI of contracts/${contractName}.sol */\n` +
+      `export const ${exportName} = ${JSON.stringify(abi, null, 2)} as const;\n`
+    );
+  }
+  return [
+    '// Generated by scripts/generate-abis.js from the Hardhat artifacts. Do not edit.',
+    '// Regenerate with `npm run abi:generate`.',
+    '',
+    sections.join('\n'),
+  ].join('\n');
+}
+
+async function main() {
+  const check = process.argv.includes('--check');
+  const generated = await render();
+
+  if (!check) {
+    await fs.writeFile(outputPath, generated);
+    console.log(`✅ Wrote ${path.relative(projectRoot, outputPath)}`);
+    return;
+  }
+
+  const committed = await fs.readFile(outputPath, 'utf8').catch(() => '');
+  if (committed !== generated) {
+    console.error(`❌ ${path.relative(projectRoot, outputPath)} is out of date with the contracts. Run \`npm run abi:generate\`.`);
+    process.exit(1);
+  }
+  console.log(`✅ ${path.relative(projectRoot, outputPath)} is up to date`);
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -0,0 +1,55 @@
+const hre = require("hardhat");
+const { getDeployment, saveDeployment } = require("./deployments.cjs");
+
+// Deployments made before deploy.cjs recorded their block. Finds the first
+// block with code at each address (binary search over eth_getCode, so the RPC
+// must serve historical state) and writes it to deployments.json.
+const CONTRACTS = ["SimpleTreasuryDAO", "TreasuryDAO"];
+
+async function hasCode(address, blockNumber) {
+  const code = await hre.ethers.provider.getCode(address, blockNumber);
+  return code !== "0x";
+}
+
+async function findDeployBlock(address) {
+  let low = 0;
+  let high = await hre.ethers.provider.getBlockNumber();
+  if (!(await hasCode(address, high))) {
+    throw new Error(`No contract at ${address}`);
+  }
+
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    if (await hasCode(address, middle)) {
+      high = middle;
+    } else {
+      low = middle + 1;
+    }
+  }
+  return low;
+}
+
+async function main() {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+
+  for (const name of CONTRACTS) {
+    const deployment = getDeployment(chainId, name);
+    if (!deployment) continue;
+    if (deployment.blockNumber !== undefined) {
+      console.log(`✅ ${name} already records block ${deployment.blockNumber}`);
+      continue;
+    }
+
+    console.log(`🔎 Searching the deployment block of ${name} at ${deployment.address}...`);
+    const blockNumber = await findDeployBlock(deployment.address);
+    saveDeployment(chainId, name, { ...deployment, blockNumber });
+    console.log(`📝 ${name} deployed in block ${blockNumber}; saved to deployments.json (chain ${chainId})`);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
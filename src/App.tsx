@@ -7,8 +7,13 @@ import { WagmiProvider } from 'wagmi';
 import { RainbowKitProvider, darkTheme } from '@rainbow-me/rainbowkit';
 import '@rainbow-me/rainbowkit/styles.css';
 import { config } from './config/wagmi';
+import FheProvider from './components/FheProvider';
+import DaoEventsProvider from './components/DaoEventsProvider';
+import ForgetKeysPrompt from './components/ForgetKeysPrompt';
 import Index from "./pages/Index";
 import Docs from "./pages/Docs";
+import ProposalDetail from "./pages/ProposalDetail";
+import Member from "./pages/Member";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -24,18 +29,25 @@ const App = () => {
             borderRadius: 'large',
           })}
         >
-          <TooltipProvider>
-            <Toaster />
-            <Sonner />
-            <BrowserRouter>
-              <Routes>
-                <Route path="/" element={<Index />} />
-                <Route path="/docs" element={<Docs />} />
-                {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-                <Route path="*" element={<NotFound />} />
-              </Routes>
-            </BrowserRouter>
-          </TooltipProvider>
+          <FheProvider>
+            <DaoEventsProvider>
+              <TooltipProvider>
+                <Toaster />
+                <Sonner />
+                <ForgetKeysPrompt />
+                <BrowserRouter>
+                  <Routes>
+                    <Route path="/" element={<Index />} />
+                    <Route path="/docs" element={<Docs />} />
+                    <Route path="/proposals/:id" element={<ProposalDetail />} />
+                    <Route path="/me" element={<Member />} />
+                    {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+                    <Route path="*" element={<NotFound />} />
+                  </Routes>
+                </BrowserRouter>
+              </TooltipProvider>
+            </DaoEventsProvider>
+          </FheProvider>
         </RainbowKitProvider>
       </QueryClientProvider>
     </WagmiProvider>
@@ -0,0 +1,31 @@
+import { useDaoActivity } from '@/hooks/use-dao-events';
+
+/**
+ * Small pulsing pill shown when contract events arrived since the user last
+ * looked. Clicking it marks the activity as seen.
+ */
+const ActivityIndicator = () => {
+  const { unseen, polling, markSeen } = useDaoActivity();
+
+  if (unseen === 0) {
+    return polling ? (
+      <span className="text-xs text-muted-foreground">Auto-refreshing</span>
+    ) : null;
+  }
+
+  return (
+    <button
+      type="button"
+      onClick={markSeen}
+      className="inline-flex items-center gap-2 rounded-full bg-primary/10 px-3 py-1 text-xs font-medium text-primary transition-colors hover:bg-primary/20"
+    >
+      <span className="relative flex h-2 w-2">
+        <span className="absolute inline-flex h-full w-full animate-ping rounded-full bg-primary opacity-75" />
+        <span className="relative inline-flex h-2 w-2 rounded-full bg-primary" />
+      </span>
+      {unseen === 1 ? 'New activity' : `${unseen} new updates`}
+    </button>
+  );
+};
+
+export default ActivityIndicator;
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -12,25 +12,48 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
 import { toast } from 'sonner';
-import { useAccount, useWalletClient } from 'wagmi';
-import { parseEther, BrowserProvider, Contract } from 'ethers';
-import { TREASURY_DAO_ADDRESS, TREASURY_DAO_ABI } from '@/config/contracts';
+import { explorerUrl } from '@/config/chains';
+import { useAccount } from 'wagmi';
+import { isAddress, parseEther } from 'ethers';
+import { useCreateProposalMutation, useMinDeposit, useTransactionPreview } from '@/hooks/use-dao';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useErrorToast } from '@/hooks/use-error-toast';
+import { isRevertError } from '@/lib/contract-errors';
+import type { DaoTransaction } from '@/lib/dao-client';
+import { parseEthAmount } from '@/lib/utils';
+import TransactionPreview from './TransactionPreview';
 
 interface CreateProposalDialogProps {
   open: boolean;
   onClose: () => void;
-  onSuccess: () => void;
+  /** Opens the deposit dialog when creation is rejected for a too-small deposit */
+  onRequestDeposit?: () => void;
 }
 
-const CreateProposalDialog = ({ open, onClose, onSuccess }: CreateProposalDialogProps) => {
+const CreateProposalDialog = ({ open, onClose, onRequestDeposit }: CreateProposalDialogProps) => {
+  const showError = useErrorToast({ onDeposit: onRequestDeposit });
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [amount, setAmount] = useState('');
   const [recipient, setRecipient] = useState('');
   const [votingDays, setVotingDays] = useState('7');
-  const [isCreating, setIsCreating] = useState(false);
   const { address } = useAccount();
-  const { data: walletClient } = useWalletClient();
+  const { mutateAsync: createProposal, isPending: isCreating } = useCreateProposalMutation();
+  const { data: minDeposit } = useMinDeposit();
+
+  // Simulated once every field holds a well-formed value
+  const transaction = useMemo((): DaoTransaction | null => {
+    const wei = parseEthAmount(amount);
+    const days = Number(votingDays);
+    if (!title || !description || !wei || !isAddress(recipient) || !Number.isInteger(days)) return null;
+    return {
+      kind: 'createProposal',
+      params: { title, description, amount: wei, recipient, votingPeriodDays: days },
+    };
+  }, [title, description, amount, recipient, votingDays]);
+  const debouncedTransaction = useDebouncedValue(transaction);
+  const preview = useTransactionPreview(open && address ? debouncedTransaction : null);
+  const willRevert = !!preview.error && isRevertError(preview.error);
 
   const handleCreate = async () => {
     if (!title || !description || !amount || !recipient || !votingDays) {
@@ -43,44 +66,39 @@ const CreateProposalDialog = ({ open, onClose, onSuccess }: CreateProposalDialog
       return;
     }
 
-    if (!address || !walletClient) {
+    if (!address) {
       toast.error('Please connect your wallet');
       return;
     }
 
-    setIsCreating(true);
-
     try {
-      const provider = new BrowserProvider(walletClient);
-      const signer = await provider.getSigner();
-      const contract = new Contract(TREASURY_DAO_ADDRESS, TREASURY_DAO_ABI, signer);
-
       toast.info('Creating proposal...', {
         description: 'Sending transaction',
       });
 
-      const tx = await contract.createProposal(
+      const receipt = await createProposal({
         title,
         description,
-        parseEther(amount),
+        amount: parseEther(amount),
         recipient,
-        parseInt(votingDays)
-      );
-
-      const receipt = await tx.wait();
+        votingPeriodDays: parseInt(votingDays),
+      });
 
+      const txUrl = explorerUrl('tx', receipt.hash);
       toast.success('Proposal created!', {
         description: (
           <div className="flex flex-col gap-1">
             <span>Voting period: {votingDays} days</span>
-            <a
-              href={`https://sepolia.etherscan.io/tx/${receipt.hash}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-xs text-blue-500 hover:text-blue-600 underline"
-            >
-              View transaction →
-            </a>
+            {txUrl && (
+              <a
+                href={txUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs text-blue-500 hover:text-blue-600 underline"
+              >
+                View transaction →
+              </a>
+            )}
           </div>
         ),
       });
@@ -90,15 +108,10 @@ const CreateProposalDialog = ({ open, onClose, onSuccess }: CreateProposalDialog
       setAmount('');
       setRecipient('');
       setVotingDays('7');
-      onSuccess();
       onClose();
     } catch (error: any) {
       console.error('Create proposal error:', error);
-      toast.error('Failed to create proposal', {
-        description: error.message || 'Please try again',
-      });
-    } finally {
-      setIsCreating(false);
+      showError('Failed to create proposal', error);
     }
   };
 
@@ -179,6 +192,14 @@ const CreateProposalDialog = ({ open, onClose, onSuccess }: CreateProposalDialog
               Address that will receive funds if proposal passes
             </p>
           </div>
+
+          <TransactionPreview
+            preview={preview.data}
+            error={preview.error}
+            isLoading={preview.isFetching}
+            minDeposit={minDeposit}
+            onDeposit={onRequestDeposit}
+          />
         </div>
 
         <DialogFooter>
@@ -187,7 +208,7 @@ const CreateProposalDialog = ({ open, onClose, onSuccess }: CreateProposalDialog
           </Button>
           <Button
             onClick={handleCreate}
-            disabled={isCreating || !title || !description || !amount || !recipient}
+            disabled={isCreating || !title || !description || !amount || !recipient || willRevert}
             className="bg-gradient-warm"
           >
             {isCreating ? 'Creating...' : 'Create Proposal'}
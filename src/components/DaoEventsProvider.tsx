@@ -0,0 +1,154 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAccount, useWatchContractEvent } from 'wagmi';
+import { TREASURY_DAO_ABI, TREASURY_DAO_ADDRESS } from '@/config/contracts';
+import { DaoActivityContext } from '@/hooks/use-dao-events';
+import { daoKeys, useDaoReader, type ProposalWithStatus } from '@/hooks/use-dao';
+import type { Proposal, TallyStatus } from '@/lib/dao-client';
+
+// Refresh interval used only when the event subscription fails
+const FALLBACK_POLL_MS = 30_000;
+
+const proposalListsKey = [...daoKeys.all, 'proposals'];
+
+/**
+ * Subscribes to SimpleTreasuryDAO events and patches the cached queries in
+ * place, so activity from other accounts shows up without a full reload.
+ * Falls back to periodically refetching everything if the subscription errors.
+ */
+const DaoEventsProvider = ({ children }: { children: ReactNode }) => {
+  const queryClient = useQueryClient();
+  const dao = useDaoReader();
+  const { address } = useAccount();
+  const [recentProposalIds, setRecentProposalIds] = useState<ReadonlySet<number>>(new Set());
+  const [unseen, setUnseen] = useState(0);
+  const [polling, setPolling] = useState(false);
+
+  const patchProposal = useCallback(
+    (id: number, patch: (proposal: Proposal & TallyStatus) => Partial<ProposalWithStatus>) => {
+      queryClient.setQueriesData<ProposalWithStatus[]>({ queryKey: proposalListsKey }, (proposals) =>
+        proposals?.map((proposal) => (proposal.id === id ? { ...proposal, ...patch(proposal) } : proposal))
+      );
+      queryClient.setQueryData<Proposal & TallyStatus>(daoKeys.proposal(id), (proposal) =>
+        proposal && { ...proposal, ...patch(proposal) }
+      );
+    },
+    [queryClient]
+  );
+
+  const addProposal = useCallback(
+    async (id: number) => {
+      if (!dao) return;
+      const proposal = await dao.getProposal(id);
+      queryClient.setQueriesData<ProposalWithStatus[]>({ queryKey: proposalListsKey }, (proposals) =>
+        proposals && !proposals.some((existing) => existing.id === id)
+          ? [...proposals, { ...proposal, hasVoted: false, decryptionPending: false, tally: null }]
+          : proposals
+      );
+    },
+    [dao, queryClient]
+  );
+
+  useWatchContractEvent({
+    address: TREASURY_DAO_ADDRESS,
+    abi: TREASURY_DAO_ABI,
+    enabled: !polling,
+    onLogs: (logs) => {
+      const touched: number[] = [];
+
+      for (const log of logs) {
+        switch (log.eventName) {
+          case 'ProposalCreated': {
+            if (log.args.id === undefined) break;
+            const id = Number(log.args.id);
+            touched.push(id);
+            addProposal(id).catch(() =>
+              queryClient.invalidateQueries({ queryKey: proposalListsKey })
+            );
+            break;
+          }
+          case 'VoteCast': {
+            if (log.args.proposalId === undefined) break;
+            const id = Number(log.args.proposalId);
+            touched.push(id);
+            queryClient.invalidateQueries({ queryKey: daoKeys.votes(id) });
+            const voter = log.args.voter;
+            if (voter && address && voter.toLowerCase() === address.toLowerCase()) {
+              queryClient.setQueryData<ProposalWithStatus[]>(daoKeys.proposals(address), (proposals) =>
+                proposals?.map((proposal) => (proposal.id === id ? { ...proposal, hasVoted: true } : proposal))
+              );
+              queryClient.setQueryData(daoKeys.hasVoted(id, address), true);
+            }
+            break;
+          }
+          case 'ProposalFinalized': {
+            if (log.args.id === undefined) break;
+            const id = Number(log.args.id);
+            touched.push(id);
+            patchProposal(id, (proposal) => ({
+              finalized: true,
+              decryptionPending: !proposal.tally,
+            }));
+            break;
+          }
+          case 'TallyPublished': {
+            const { id, yesVotes, noVotes, passed } = log.args;
+            if (id === undefined || yesVotes === undefined || noVotes === undefined || passed === undefined) break;
+            touched.push(Number(id));
+            patchProposal(Number(id), () => ({
+              decryptionPending: false,
+              tally: { yes: Number(yesVotes), no: Number(noVotes), passed },
+            }));
+            break;
+          }
+          case 'Deposited':
+          case 'Withdrawn': {
+            // Refetch rather than add the amount: the depositor's own mutation
+            // may already have refetched the balance including this event
+            const { user } = log.args;
+            if (!user) break;
+            queryClient.invalidateQueries({ queryKey: daoKeys.deposit(user) });
+            queryClient.invalidateQueries({ queryKey: daoKeys.depositHistory(user) });
+            queryClient.invalidateQueries({ queryKey: daoKeys.previews(user) });
+            break;
+          }
+        }
+      }
+
+      queryClient.invalidateQueries({ queryKey: daoKeys.events() });
+      if (logs.some((log) => log.eventName === 'Deposited' || log.eventName === 'Withdrawn')) {
+        queryClient.invalidateQueries({ queryKey: daoKeys.balance() });
+        queryClient.invalidateQueries({ queryKey: daoKeys.depositors() });
+      }
+
+      setUnseen((count) => count + logs.length);
+      if (touched.length > 0) {
+        setRecentProposalIds((ids) => new Set([...ids, ...touched]));
+      }
+    },
+    onError: () => setPolling(true),
+  });
+
+  useEffect(() => {
+    if (!polling) return;
+    const timer = setInterval(
+      () => queryClient.invalidateQueries({ queryKey: daoKeys.all }),
+      FALLBACK_POLL_MS
+    );
+    return () => clearInterval(timer);
+  }, [polling, queryClient]);
+
+  const markSeen = useCallback(() => {
+    setUnseen(0);
+    setRecentProposalIds(new Set());
+  }, []);
+
+  const value = useMemo(
+    () => ({ recentProposalIds, unseen, polling, markSeen }),
+    [recentProposalIds, unseen, polling, markSeen]
+  );
+
+  return <DaoActivityContext.Provider value={value}>{children}</DaoActivityContext.Provider>;
+};
+
+export default DaoEventsProvider;
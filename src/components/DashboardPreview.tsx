@@ -1,7 +1,81 @@
+import { useMemo, type ReactNode } from 'react';
+import { Link } from 'react-router-dom';
 import { Card } from '@/components/ui/card';
-import { Lock, TrendingUp, ArrowUpRight, ArrowDownRight } from 'lucide-react';
+import { Lock, Eye, Wallet, FileText, Users, ArrowDownRight, ArrowUpRight, Vote, CheckCircle2 } from 'lucide-react';
+import { formatEther } from 'ethers';
+import type { DaoEvent } from '@/lib/dao-client';
+import { useDepositorCount, useProposals, useRecentEvents, useTreasuryBalance } from '@/hooks/use-dao';
+import ActivityIndicator from './ActivityIndicator';
+
+const formatEth = (wei: bigint) => Number(formatEther(wei)).toLocaleString(undefined, { maximumFractionDigits: 4 });
+
+const timeAgo = (timestamp: number) => {
+  const seconds = Math.max(0, Math.floor(Date.now() / 1000) - timestamp);
+  if (seconds < 60) return 'just now';
+  if (seconds < 3600) return `${Math.floor(seconds / 60)} min ago`;
+  if (seconds < 86400) return `${Math.floor(seconds / 3600)} h ago`;
+  const days = Math.floor(seconds / 86400);
+  return `${days} day${days > 1 ? 's' : ''} ago`;
+};
+
+const shortAddress = (address: string) => `${address.slice(0, 6)}...${address.slice(-4)}`;
+
+/** Label, icon and public amount of an event row; ballots are never shown */
+const describeEvent = (event: DaoEvent): { label: string; icon: ReactNode; amount?: bigint; encrypted?: boolean } => {
+  const who = event.account ? shortAddress(event.account) : '';
+  switch (event.name) {
+    case 'Deposited':
+      return { label: `Deposit by ${who}`, icon: <ArrowDownRight className="w-5 h-5" />, amount: event.amount };
+    case 'Withdrawn':
+      return { label: `Withdrawal by ${who}`, icon: <ArrowUpRight className="w-5 h-5" />, amount: event.amount };
+    case 'ProposalCreated':
+      return { label: `Proposal #${event.proposalId} created`, icon: <FileText className="w-5 h-5" />, amount: event.amount };
+    case 'VoteCast':
+      return { label: `Vote on proposal #${event.proposalId} by ${who}`, icon: <Vote className="w-5 h-5" />, encrypted: true };
+    case 'ProposalFinalized':
+      return { label: `Proposal #${event.proposalId} finalized`, icon: <CheckCircle2 className="w-5 h-5" /> };
+    case 'TallyDecryptionRequested':
+      return { label: `Tally decryption requested for #${event.proposalId}`, icon: <Lock className="w-5 h-5" /> };
+    case 'TallyPublished':
+      return { label: `Results published for #${event.proposalId}`, icon: <Eye className="w-5 h-5" /> };
+    default:
+      return { label: event.name, icon: <FileText className="w-5 h-5" /> };
+  }
+};
+
+const PublicLabel = () => (
+  <div className="flex items-center gap-1 text-primary text-sm">
+    <Eye className="w-4 h-4" />
+    <span>Public data</span>
+  </div>
+);
+
+const EncryptedLabel = ({ text = 'Encrypted' }: { text?: string }) => (
+  <div className="flex items-center gap-1 text-muted-foreground text-sm">
+    <Lock className="w-4 h-4" />
+    <span>{text}</span>
+  </div>
+);
 
 const DashboardPreview = () => {
+  const { data: balance } = useTreasuryBalance();
+  const { data: proposals } = useProposals();
+  const { data: depositors, isLoading: depositorsLoading } = useDepositorCount();
+  const { data: events, isLoading: eventsLoading, isError: eventsError } = useRecentEvents();
+
+  const stats = useMemo(() => {
+    if (!proposals) return null;
+    const now = Math.floor(Date.now() / 1000);
+    return {
+      active: proposals.filter((proposal) => !proposal.finalized && proposal.deadline > now).length,
+      ended: proposals.filter((proposal) => !proposal.finalized && proposal.deadline <= now).length,
+      finalized: proposals.filter((proposal) => proposal.finalized).length,
+      // Tallies stay encrypted until finalization and the oracle's decryption
+      sealed: proposals.filter((proposal) => !proposal.tally).length,
+      requested: proposals.reduce((total, proposal) => total + proposal.amount, 0n),
+    };
+  }, [proposals]);
+
   return (
     <section id="dashboard" className="py-24 bg-muted/30">
       <div className="container mx-auto px-6">
@@ -12,78 +86,125 @@ const DashboardPreview = () => {
           <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
             Real-time insights with complete privacy protection
           </p>
+          <div className="mt-4 flex justify-center">
+            <ActivityIndicator />
+          </div>
         </div>
-        
+
         <div className="max-w-5xl mx-auto">
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-6">
             <Card className="p-6 bg-gradient-warm border-0 shadow-elevated">
               <div className="flex items-center justify-between mb-4">
-                <span className="text-primary-foreground/80 font-medium">Total Balance</span>
-                <Lock className="w-5 h-5 text-primary-foreground/60" />
+                <span className="text-primary-foreground/80 font-medium">Treasury Balance</span>
+                <Wallet className="w-5 h-5 text-primary-foreground/60" />
               </div>
               <div className="text-3xl font-bold text-primary-foreground mb-2">
-                ████.██ ETH
+                {balance === undefined ? '...' : `${formatEth(balance)} ETH`}
               </div>
               <div className="flex items-center gap-1 text-primary-foreground/80 text-sm">
-                <TrendingUp className="w-4 h-4" />
-                <span>Encrypted</span>
+                <Eye className="w-4 h-4" />
+                <span>Public data</span>
               </div>
             </Card>
-            
+
             <Card className="p-6 shadow-warm">
               <div className="flex items-center justify-between mb-4">
-                <span className="text-muted-foreground font-medium">Monthly Spending</span>
-                <Lock className="w-5 h-5 text-muted-foreground/60" />
+                <span className="text-muted-foreground font-medium">Total Requested</span>
+                <FileText className="w-5 h-5 text-muted-foreground/60" />
               </div>
               <div className="text-3xl font-bold mb-2">
-                ██.█ ETH
-              </div>
-              <div className="flex items-center gap-1 text-destructive text-sm">
-                <ArrowDownRight className="w-4 h-4" />
-                <span>Encrypted</span>
+                {stats ? `${formatEth(stats.requested)} ETH` : '...'}
               </div>
+              <PublicLabel />
             </Card>
-            
+
             <Card className="p-6 shadow-warm">
               <div className="flex items-center justify-between mb-4">
-                <span className="text-muted-foreground font-medium">Active Proposals</span>
+                <span className="text-muted-foreground font-medium">Depositors</span>
+                <Users className="w-5 h-5 text-muted-foreground/60" />
               </div>
               <div className="text-3xl font-bold mb-2">
-                8
-              </div>
-              <div className="flex items-center gap-1 text-primary text-sm">
-                <ArrowUpRight className="w-4 h-4" />
-                <span>Public Data</span>
+                {depositorsLoading ? '...' : depositors ?? '—'}
               </div>
+              {depositors === null ? (
+                <div className="text-sm text-muted-foreground">Needs the indexer to count</div>
+              ) : (
+                <PublicLabel />
+              )}
             </Card>
           </div>
-          
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-6 mb-8">
+            {[
+              { label: 'Active', value: stats?.active },
+              { label: 'Awaiting finalization', value: stats?.ended },
+              { label: 'Finalized', value: stats?.finalized },
+            ].map(({ label, value }) => (
+              <Card key={label} className="p-6 shadow-warm">
+                <div className="text-muted-foreground font-medium mb-2">{label}</div>
+                <div className="text-3xl font-bold mb-2">{value ?? '...'}</div>
+                <PublicLabel />
+              </Card>
+            ))}
+            <Card className="p-6 shadow-warm border-primary/30">
+              <div className="text-muted-foreground font-medium mb-2">Sealed tallies</div>
+              <div className="text-3xl font-bold mb-2">{stats?.sealed ?? '...'}</div>
+              <EncryptedLabel text="Encrypted until finalized" />
+            </Card>
+          </div>
+
           <Card className="p-8 shadow-elevated bg-card/50 backdrop-blur">
             <h3 className="text-xl font-bold mb-6 flex items-center gap-2">
               <Lock className="w-5 h-5 text-primary" />
-              Recent Transactions
+              Recent Activity
             </h3>
-            <div className="space-y-4">
-              {[1, 2, 3, 4].map((i) => (
-                <div key={i} className="flex items-center justify-between p-4 rounded-lg bg-muted/50 hover:bg-muted/80 transition-colors">
-                  <div className="flex items-center gap-4">
-                    <div className="w-10 h-10 rounded-lg bg-gradient-earth flex items-center justify-center">
-                      <Lock className="w-5 h-5 text-primary-foreground" />
-                    </div>
-                    <div>
-                      <div className="font-medium">Proposal #{i} Payment</div>
-                      <div className="text-sm text-muted-foreground">
-                        {i} days ago
+            {eventsLoading ? (
+              <p className="text-muted-foreground">Loading activity...</p>
+            ) : eventsError ? (
+              <p className="text-destructive">Could not load recent activity.</p>
+            ) : !events?.length ? (
+              <p className="text-muted-foreground">No activity in the past week.</p>
+            ) : (
+              <div className="space-y-4">
+                {events.map((event) => {
+                  const { label, icon, amount, encrypted } = describeEvent(event);
+                  const title = event.proposalId !== undefined
+                    ? <Link to={`/proposals/${event.proposalId}`} className="hover:text-primary transition-colors">{label}</Link>
+                    : label;
+                  return (
+                    <div
+                      key={`${event.txHash}-${event.name}`}
+                      className="flex items-center justify-between p-4 rounded-lg bg-muted/50 hover:bg-muted/80 transition-colors"
+                    >
+                      <div className="flex items-center gap-4">
+                        <div className="w-10 h-10 rounded-lg bg-gradient-earth flex items-center justify-center text-primary-foreground">
+                          {icon}
+                        </div>
+                        <div>
+                          <div className="font-medium">{title}</div>
+                          <div className="text-sm text-muted-foreground">
+                            {timeAgo(event.timestamp)}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="text-right">
+                        {encrypted ? (
+                          <>
+                            <div className="font-mono font-bold">████</div>
+                            <div className="text-xs text-muted-foreground">Encrypted ballot</div>
+                          </>
+                        ) : amount !== undefined ? (
+                          <>
+                            <div className="font-mono font-bold">{formatEth(amount)} ETH</div>
+                            <div className="text-xs text-muted-foreground">Public</div>
+                          </>
+                        ) : null}
                       </div>
                     </div>
-                  </div>
-                  <div className="text-right">
-                    <div className="font-mono font-bold">████ ETH</div>
-                    <div className="text-xs text-muted-foreground">Encrypted</div>
-                  </div>
-                </div>
-              ))}
-            </div>
+                  );
+                })}
+              </div>
+            )}
           </Card>
         </div>
       </div>
@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useMemo, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -11,23 +11,32 @@ import {
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { toast } from 'sonner';
+import { explorerUrl } from '@/config/chains';
 import { useAccount } from 'wagmi';
 import { parseEther } from 'ethers';
-import { TREASURY_DAO_ADDRESS, TREASURY_DAO_ABI } from '@/config/contracts';
-import { useWalletClient } from 'wagmi';
-import { BrowserProvider, Contract } from 'ethers';
+import { useDepositMutation, useMinDeposit, useTransactionPreview } from '@/hooks/use-dao';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useErrorToast } from '@/hooks/use-error-toast';
+import { isRevertError } from '@/lib/contract-errors';
+import { parseEthAmount } from '@/lib/utils';
+import TransactionPreview from './TransactionPreview';
 
 interface DepositDialogProps {
   open: boolean;
   onClose: () => void;
-  onSuccess: () => void;
 }
 
-const DepositDialog = ({ open, onClose, onSuccess }: DepositDialogProps) => {
+const DepositDialog = ({ open, onClose }: DepositDialogProps) => {
   const [amount, setAmount] = useState('');
-  const [isDepositing, setIsDepositing] = useState(false);
   const { address } = useAccount();
-  const { data: walletClient } = useWalletClient();
+  const { mutateAsync: deposit, isPending: isDepositing } = useDepositMutation();
+  const showError = useErrorToast();
+  const { data: minDeposit } = useMinDeposit();
+  const debouncedAmount = useDebouncedValue(useMemo(() => parseEthAmount(amount), [amount]));
+  const preview = useTransactionPreview(
+    open && address && debouncedAmount ? { kind: 'deposit', amount: debouncedAmount } : null
+  );
+  const willRevert = !!preview.error && isRevertError(preview.error);
 
   const handleDeposit = async () => {
     if (!amount || parseFloat(amount) <= 0) {
@@ -35,54 +44,42 @@ const DepositDialog = ({ open, onClose, onSuccess }: DepositDialogProps) => {
       return;
     }
 
-    if (!address || !walletClient) {
+    if (!address) {
       toast.error('Please connect your wallet');
       return;
     }
 
-    setIsDepositing(true);
-
     try {
-      const provider = new BrowserProvider(walletClient);
-      const signer = await provider.getSigner();
-      const contract = new Contract(TREASURY_DAO_ADDRESS, TREASURY_DAO_ABI, signer);
-
       toast.info('Depositing...', {
         description: `Sending ${amount} ETH to treasury`,
       });
 
-      const tx = await contract.deposit({
-        value: parseEther(amount),
-      });
-
-      const receipt = await tx.wait();
+      const receipt = await deposit(parseEther(amount));
 
+      const txUrl = explorerUrl('tx', receipt.hash);
       toast.success('Deposit successful!', {
         description: (
           <div className="flex flex-col gap-1">
             <span>{amount} ETH deposited to treasury</span>
-            <a
-              href={`https://sepolia.etherscan.io/tx/${receipt.hash}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-xs text-blue-500 hover:text-blue-600 underline"
-            >
-              View transaction →
-            </a>
+            {txUrl && (
+              <a
+                href={txUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs text-blue-500 hover:text-blue-600 underline"
+              >
+                View transaction →
+              </a>
+            )}
           </div>
         ),
       });
 
       setAmount('');
-      onSuccess();
       onClose();
     } catch (error: any) {
       console.error('Deposit error:', error);
-      toast.error('Deposit failed', {
-        description: error.message || 'Please try again',
-      });
-    } finally {
-      setIsDepositing(false);
+      showError('Deposit failed', error);
     }
   };
 
@@ -113,6 +110,13 @@ const DepositDialog = ({ open, onClose, onSuccess }: DepositDialogProps) => {
               Your deposit will be recorded on-chain
             </p>
           </div>
+
+          <TransactionPreview
+            preview={preview.data}
+            error={preview.error}
+            isLoading={preview.isFetching}
+            minDeposit={minDeposit}
+          />
         </div>
 
         <DialogFooter>
@@ -121,7 +125,7 @@ const DepositDialog = ({ open, onClose, onSuccess }: DepositDialogProps) => {
           </Button>
           <Button
             onClick={handleDeposit}
-            disabled={isDepositing || !amount}
+            disabled={isDepositing || !amount || willRevert}
             className="bg-gradient-warm"
           >
             {isDepositing ? 'Depositing...' : 'Deposit'}
@@ -0,0 +1,75 @@
+import { useCallback, useEffect, useMemo, useRef, useState, type ReactNode } from 'react';
+import { useAccount } from 'wagmi';
+import { FheContext, type FheStatus } from '@/hooks/use-fhe';
+import { getFheInstance, releaseFheInstance, type Eip1193Provider } from '@/lib/fhe';
+import { FheProviderMissingError } from '@/lib/fhe-errors';
+
+interface ActiveInstance {
+  provider: Eip1193Provider;
+  chainId: number;
+}
+
+/**
+ * Provides the FHE instance of the wallet connected through wagmi.
+ * The instance is built lazily from the connector's EIP-1193 provider and
+ * dropped whenever the account, chain or connector changes.
+ */
+const FheProvider = ({ children }: { children: ReactNode }) => {
+  const { connector, address, chainId } = useAccount();
+  const [status, setStatus] = useState<FheStatus>('idle');
+  const [error, setError] = useState<Error | null>(null);
+  const active = useRef<ActiveInstance | null>(null);
+  // Flipped by the cleanup below so loads still in flight for the previous wallet are dropped
+  const session = useRef({ cancelled: false });
+
+  useEffect(() => {
+    const current = { cancelled: false };
+    session.current = current;
+    setStatus('idle');
+    setError(null);
+
+    return () => {
+      current.cancelled = true;
+      if (active.current) {
+        releaseFheInstance(active.current.provider, active.current.chainId);
+        active.current = null;
+      }
+    };
+  }, [connector, address, chainId]);
+
+  const getInstance = useCallback(async () => {
+    if (!connector || !address || !chainId) {
+      throw new FheProviderMissingError('Wallet not connected');
+    }
+
+    const current = session.current;
+    const provider = (await connector.getProvider()) as Eip1193Provider;
+    if (current.cancelled) {
+      throw new FheProviderMissingError('Wallet changed while loading the FHE instance');
+    }
+    active.current = { provider, chainId };
+    setStatus('loading');
+    setError(null);
+
+    try {
+      const instance = await getFheInstance(provider, chainId);
+      if (current.cancelled) {
+        releaseFheInstance(provider, chainId);
+        throw new FheProviderMissingError('Wallet changed while loading the FHE instance');
+      }
+      setStatus('ready');
+      return instance;
+    } catch (err) {
+      if (current.cancelled) throw err;
+      setStatus('error');
+      setError(err instanceof Error ? err : new Error(String(err)));
+      throw err;
+    }
+  }, [connector, address, chainId]);
+
+  const value = useMemo(() => ({ getInstance, status, error }), [getInstance, status, error]);
+
+  return <FheContext.Provider value={value}>{children}</FheContext.Provider>;
+};
+
+export default FheProvider;
@@ -0,0 +1,65 @@
+import { Button } from '@/components/ui/button';
+import { CheckCircle2, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { explorerUrl } from '@/config/chains';
+import { useFinalizeMutation } from '@/hooks/use-dao';
+import { useErrorToast } from '@/hooks/use-error-toast';
+
+interface FinalizeProposalProps {
+  proposalId: number;
+  size?: 'default' | 'sm';
+}
+
+/**
+ * Finalizes an ended proposal, which asks the oracle to decrypt its tally.
+ * Render it only for the owner or proposer (see canFinalize).
+ */
+const FinalizeProposal = ({ proposalId, size = 'default' }: FinalizeProposalProps) => {
+  const { mutateAsync: finalize, isPending } = useFinalizeMutation();
+  const showError = useErrorToast();
+
+  const handleFinalize = async () => {
+    try {
+      toast.info('Finalizing proposal...', {
+        description: 'Confirm the transaction in your wallet',
+      });
+
+      const receipt = await finalize(proposalId);
+
+      const txUrl = explorerUrl('tx', receipt.hash);
+      toast.success('Proposal finalized!', {
+        description: (
+          <div className="flex flex-col gap-1">
+            <span>The tally is being decrypted and will be published shortly</span>
+            {txUrl && (
+              <a
+                href={txUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs text-blue-500 hover:text-blue-600 underline"
+              >
+                View transaction →
+              </a>
+            )}
+          </div>
+        ),
+      });
+    } catch (error) {
+      console.error('Finalize error:', error);
+      showError('Failed to finalize proposal', error);
+    }
+  };
+
+  return (
+    <Button size={size} variant="outline" onClick={handleFinalize} disabled={isPending}>
+      {isPending ? (
+        <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+      ) : (
+        <CheckCircle2 className="w-4 h-4 mr-2" />
+      )}
+      {isPending ? 'Finalizing...' : 'Finalize'}
+    </Button>
+  );
+};
+
+export default FinalizeProposal;
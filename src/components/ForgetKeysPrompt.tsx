@@ -0,0 +1,48 @@
+import { useEffect, useRef } from 'react';
+import { toast } from 'sonner';
+import { useAccount, useAccountEffect } from 'wagmi';
+import { forgetDecryptionKeys, hasDecryptionKeys } from '@/lib/fhe';
+import { getErrorMessage } from '@/lib/fhe-errors';
+
+/**
+ * Offers to wipe the cached FHE decryption keys when the wallet disconnects
+ */
+const ForgetKeysPrompt = () => {
+  const { address } = useAccount();
+  const lastAddress = useRef<string | undefined>(address);
+
+  useEffect(() => {
+    if (address) lastAddress.current = address;
+  }, [address]);
+
+  useAccountEffect({
+    onDisconnect: async () => {
+      const account = lastAddress.current;
+      // Nothing to offer if the key store cannot be read
+      if (!account || !(await hasDecryptionKeys(account).catch(() => false))) return;
+
+      toast('Wallet disconnected', {
+        description: 'Decryption keys for this account are still stored on this device.',
+        duration: 15000,
+        action: {
+          label: 'Forget keys',
+          onClick: async () => {
+            try {
+              await forgetDecryptionKeys(account);
+              toast.success('Decryption keys removed');
+            } catch (error) {
+              console.error('Forget keys error:', error);
+              toast.error('Could not remove decryption keys', {
+                description: getErrorMessage(error),
+              });
+            }
+          },
+        },
+      });
+    },
+  });
+
+  return null;
+};
+
+export default ForgetKeysPrompt;
@@ -1,11 +1,13 @@
 import { ConnectButton } from '@rainbow-me/rainbowkit';
 // brand logo uses public/favicon.svg
 import { useNavigate, useLocation } from 'react-router-dom';
+import { useAccount } from 'wagmi';
 
 const Header = () => {
   const navigate = useNavigate();
   const location = useLocation();
   const isHomePage = location.pathname === '/';
+  const { address } = useAccount();
 
   const handleNavigation = (path: string, hash?: string) => {
     if (path === '/' && hash) {
@@ -65,6 +67,14 @@ const Header = () => {
               </button>
             </>
           )}
+          {address && (
+            <button
+              onClick={() => navigate('/me')}
+              className="text-foreground/80 hover:text-foreground transition-colors"
+            >
+              My Governance
+            </button>
+          )}
           <button
             onClick={() => navigate('/docs')}
             className="text-foreground/80 hover:text-foreground transition-colors"
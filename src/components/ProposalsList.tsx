@@ -1,15 +1,22 @@
-import { useState, useEffect } from 'react';
+import { useMemo, useState } from 'react';
 import { Card } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
-import { Lock, Clock, Plus } from 'lucide-react';
+import { Lock, Clock, Plus, Loader2, ThumbsUp, ThumbsDown } from 'lucide-react';
+import { Link } from 'react-router-dom';
 import { useAccount } from 'wagmi';
-import { BrowserProvider, Contract, formatEther } from 'ethers';
-import { TREASURY_DAO_ADDRESS, TREASURY_DAO_ABI } from '@/config/contracts';
+import { useConnectModal } from '@rainbow-me/rainbowkit';
+import { formatEther } from 'ethers';
+import { canFinalize, type Tally } from '@/lib/dao-client';
+import { useDaoOwner, useDeposit, useMinDeposit, useProposals } from '@/hooks/use-dao';
+import { useDaoActivity } from '@/hooks/use-dao-events';
 import VoteDialog from './VoteDialog';
 import CreateProposalDialog from './CreateProposalDialog';
 import DepositDialog from './DepositDialog';
-import { useWalletClient } from 'wagmi';
+import WithdrawDialog from './WithdrawDialog';
+import ActivityIndicator from './ActivityIndicator';
+import RevealResults from './RevealResults';
+import FinalizeProposal from './FinalizeProposal';
 
 interface Proposal {
   id: number;
@@ -20,70 +27,35 @@ interface Proposal {
   recipient: string;
   deadline: number;
   finalized: boolean;
+  hasVoted: boolean;
+  decryptionPending: boolean;
+  tally: Tally | null;
 }
 
 const ProposalsList = () => {
-  const [proposals, setProposals] = useState<Proposal[]>([]);
-  const [loading, setLoading] = useState(true);
   const [selectedProposal, setSelectedProposal] = useState<Proposal | null>(null);
   const [showVoteDialog, setShowVoteDialog] = useState(false);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [showDepositDialog, setShowDepositDialog] = useState(false);
-  const [userDeposit, setUserDeposit] = useState<string>('0');
+  const [showWithdrawDialog, setShowWithdrawDialog] = useState(false);
   const { address } = useAccount();
-  const { data: walletClient } = useWalletClient();
-
-  const loadProposals = async () => {
-    if (!walletClient) return;
-
-    try {
-      const provider = new BrowserProvider(walletClient);
-      const contract = new Contract(TREASURY_DAO_ADDRESS, TREASURY_DAO_ABI, provider);
-
-      const count = await contract.getProposalCount();
-      const proposalsList: Proposal[] = [];
-
-      for (let i = 0; i < Number(count); i++) {
-        const proposal = await contract.getProposal(i);
-        proposalsList.push({
-          id: Number(proposal[0]),
-          title: proposal[1],
-          description: proposal[2],
-          proposer: proposal[3],
-          amount: formatEther(proposal[4]),
-          recipient: proposal[5],
-          deadline: Number(proposal[6]),
-          finalized: proposal[7],
-        });
-      }
-
-      setProposals(proposalsList);
-      setLoading(false);
-    } catch (error) {
-      console.error('Error loading proposals:', error);
-      setLoading(false);
-    }
-  };
+  const { openConnectModal } = useConnectModal();
+  const { data: proposalData, isLoading: loading } = useProposals();
+  const { data: deposit = 0n } = useDeposit(address);
+  const { data: minDeposit = 0n } = useMinDeposit();
+  const { data: owner = '' } = useDaoOwner();
+  const { recentProposalIds } = useDaoActivity();
 
-  const loadUserDeposit = async () => {
-    if (!address || !walletClient) return;
-
-    try {
-      const provider = new BrowserProvider(walletClient);
-      const contract = new Contract(TREASURY_DAO_ADDRESS, TREASURY_DAO_ABI, provider);
-      const deposit = await contract.deposits(address);
-      setUserDeposit(formatEther(deposit));
-    } catch (error) {
-      console.error('Error loading user deposit:', error);
-    }
-  };
-
-  useEffect(() => {
-    if (walletClient) {
-      loadProposals();
-      loadUserDeposit();
-    }
-  }, [walletClient, address]);
+  const proposals: Proposal[] = useMemo(
+    () => (proposalData ?? []).map((proposal) => ({ ...proposal, amount: formatEther(proposal.amount) })),
+    [proposalData]
+  );
+  const userDeposit = formatEther(deposit);
+  const canVote = deposit >= minDeposit;
+  const isOwner = !!address && address.toLowerCase() === owner.toLowerCase();
+  const awaitingFinalization = isOwner
+    ? proposals.filter((proposal) => !proposal.finalized && proposal.deadline < Math.floor(Date.now() / 1000))
+    : [];
 
   const getTimeLeft = (deadline: number) => {
     const now = Math.floor(Date.now() / 1000);
@@ -98,26 +70,39 @@ const ProposalsList = () => {
     return `${hours} hour${hours > 1 ? 's' : ''} left`;
   };
 
-  const handleVote = (proposal: Proposal) => {
+  const getStatusLabel = (proposal: Proposal) => {
+    if (!proposal.finalized) {
+      return proposal.deadline < Math.floor(Date.now() / 1000) ? 'Awaiting finalization' : 'Active';
+    }
+    if (proposal.tally) return proposal.tally.passed ? 'Passed' : 'Rejected';
+    return 'Finalized';
+  };
+
+  const canReveal = (proposal: Proposal) => {
+    if (!address || !proposal.finalized || proposal.tally) return false;
+    const user = address.toLowerCase();
+    return user === owner.toLowerCase() || user === proposal.proposer.toLowerCase();
+  };
+
+  // Write actions ask anonymous visitors to connect first
+  const requireWallet = (action: () => void) => {
     if (!address) {
-      alert('Please connect your wallet');
+      openConnectModal?.();
       return;
     }
+    action();
+  };
 
-    if (parseFloat(userDeposit) < 0.001) {
-      alert('You need to deposit at least 0.001 ETH to vote');
+  const handleVote = (proposal: Proposal) => requireWallet(() => {
+    if (!canVote) {
+      alert(`You need to deposit at least ${formatEther(minDeposit)} ETH to vote`);
       setShowDepositDialog(true);
       return;
     }
 
     setSelectedProposal(proposal);
     setShowVoteDialog(true);
-  };
-
-  const handleRefresh = () => {
-    loadProposals();
-    loadUserDeposit();
-  };
+  });
 
   return (
     <section id="proposals" className="py-24 relative">
@@ -129,6 +114,9 @@ const ProposalsList = () => {
           <p className="text-xl text-muted-foreground max-w-2xl mx-auto">
             Vote with encrypted ballots - your choice remains private
           </p>
+          <div className="mt-4 flex justify-center">
+            <ActivityIndicator />
+          </div>
         </div>
 
         <div className="max-w-4xl mx-auto mb-8 flex justify-between items-center">
@@ -136,23 +124,29 @@ const ProposalsList = () => {
             {address && (
               <span>
                 Your deposit: <strong>{userDeposit} ETH</strong>
-                {parseFloat(userDeposit) < 0.001 && (
-                  <span className="text-destructive ml-2">(Need 0.001 ETH to vote)</span>
+                {!canVote && (
+                  <span className="text-destructive ml-2">(Need {formatEther(minDeposit)} ETH to vote)</span>
                 )}
               </span>
             )}
           </div>
           <div className="flex gap-2">
             <Button
-              onClick={() => setShowDepositDialog(true)}
+              onClick={() => requireWallet(() => setShowDepositDialog(true))}
               variant="outline"
-              disabled={!address}
             >
               Deposit
             </Button>
+            {deposit > 0n && (
+              <Button
+                onClick={() => setShowWithdrawDialog(true)}
+                variant="outline"
+              >
+                Withdraw
+              </Button>
+            )}
             <Button
-              onClick={() => setShowCreateDialog(true)}
-              disabled={!address}
+              onClick={() => requireWallet(() => setShowCreateDialog(true))}
               className="bg-gradient-warm"
             >
               <Plus className="w-4 h-4 mr-2" />
@@ -161,6 +155,25 @@ const ProposalsList = () => {
           </div>
         </div>
 
+        {awaitingFinalization.length > 0 && (
+          <Card className="max-w-4xl mx-auto mb-8 p-6 border-primary/30">
+            <h3 className="text-lg font-bold mb-1">Ended, awaiting finalization</h3>
+            <p className="text-sm text-muted-foreground mb-4">
+              Voting has closed on these proposals. Finalize them to publish the results.
+            </p>
+            <ul className="space-y-3">
+              {awaitingFinalization.map((proposal) => (
+                <li key={proposal.id} className="flex items-center justify-between gap-4">
+                  <Link to={`/proposals/${proposal.id}`} className="font-medium hover:text-primary transition-colors">
+                    #{proposal.id} {proposal.title}
+                  </Link>
+                  <FinalizeProposal proposalId={proposal.id} size="sm" />
+                </li>
+              ))}
+            </ul>
+          </Card>
+        )}
+
         {loading ? (
           <div className="text-center py-12">
             <p className="text-muted-foreground">Loading proposals...</p>
@@ -172,7 +185,12 @@ const ProposalsList = () => {
         ) : (
           <div className="max-w-4xl mx-auto space-y-6">
             {proposals.map((proposal) => (
-              <Card key={proposal.id} className="p-8 shadow-warm hover:shadow-elevated transition-all duration-300">
+              <Card
+                key={proposal.id}
+                className={`p-8 shadow-warm hover:shadow-elevated transition-all duration-300 ${
+                  recentProposalIds.has(proposal.id) ? 'ring-1 ring-primary/40' : ''
+                }`}
+              >
                 <div className="flex flex-col md:flex-row md:items-start justify-between gap-6">
                   <div className="flex-1">
                     <div className="flex items-center gap-3 mb-3">
@@ -180,7 +198,7 @@ const ProposalsList = () => {
                         variant={proposal.finalized ? 'secondary' : 'default'}
                         className="bg-gradient-warm text-primary-foreground border-0"
                       >
-                        {proposal.finalized ? 'Finalized' : 'Active'}
+                        {getStatusLabel(proposal)}
                       </Badge>
                       <span className="text-sm text-muted-foreground flex items-center gap-1">
                         <Clock className="w-4 h-4" />
@@ -188,7 +206,11 @@ const ProposalsList = () => {
                       </span>
                     </div>
 
-                    <h3 className="text-2xl font-bold mb-3">{proposal.title}</h3>
+                    <h3 className="text-2xl font-bold mb-3">
+                      <Link to={`/proposals/${proposal.id}`} className="hover:text-primary transition-colors">
+                        {proposal.title}
+                      </Link>
+                    </h3>
                     <p className="text-muted-foreground mb-4">{proposal.description}</p>
 
                     <div className="flex items-center gap-3 mb-4">
@@ -202,17 +224,40 @@ const ProposalsList = () => {
                       <div>Recipient: {proposal.recipient.slice(0, 10)}...{proposal.recipient.slice(-8)}</div>
                       <div>Proposer: {proposal.proposer.slice(0, 10)}...{proposal.proposer.slice(-8)}</div>
                     </div>
+
+                    {proposal.decryptionPending && (
+                      <div className="mt-4 flex items-center gap-2 text-sm text-muted-foreground">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        Decryption pending - results will be published on-chain shortly
+                      </div>
+                    )}
+
+                    {proposal.tally && (
+                      <div className="mt-4 flex items-center gap-3">
+                        <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-muted">
+                          <ThumbsUp className="w-4 h-4 text-primary" />
+                          <span className="text-sm font-medium">Yes: {proposal.tally.yes}</span>
+                        </div>
+                        <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-muted">
+                          <ThumbsDown className="w-4 h-4 text-primary" />
+                          <span className="text-sm font-medium">No: {proposal.tally.no}</span>
+                        </div>
+                      </div>
+                    )}
+
+                    {canReveal(proposal) && <RevealResults proposalId={proposal.id} />}
                   </div>
 
                   <div className="flex flex-col gap-3 md:min-w-[140px]">
                     <Button
                       onClick={() => handleVote(proposal)}
-                      disabled={proposal.finalized}
+                      disabled={proposal.finalized || proposal.hasVoted || proposal.deadline * 1000 <= Date.now()}
                       className="bg-gradient-warm hover:opacity-90 text-primary-foreground shadow-warm"
                     >
                       <Lock className="w-4 h-4 mr-2" />
-                      Vote
+                      {proposal.hasVoted ? 'Voted' : 'Vote'}
                     </Button>
+                    {canFinalize(proposal, address, owner) && <FinalizeProposal proposalId={proposal.id} />}
                   </div>
                 </div>
               </Card>
@@ -225,19 +270,29 @@ const ProposalsList = () => {
         proposal={selectedProposal}
         open={showVoteDialog}
         onClose={() => setShowVoteDialog(false)}
-        onSuccess={handleRefresh}
+        onRequestDeposit={() => {
+          setShowVoteDialog(false);
+          setShowDepositDialog(true);
+        }}
       />
 
       <CreateProposalDialog
         open={showCreateDialog}
         onClose={() => setShowCreateDialog(false)}
-        onSuccess={handleRefresh}
+        onRequestDeposit={() => {
+          setShowCreateDialog(false);
+          setShowDepositDialog(true);
+        }}
       />
 
       <DepositDialog
         open={showDepositDialog}
         onClose={() => setShowDepositDialog(false)}
-        onSuccess={handleRefresh}
+      />
+
+      <WithdrawDialog
+        open={showWithdrawDialog}
+        onClose={() => setShowWithdrawDialog(false)}
       />
     </section>
   );
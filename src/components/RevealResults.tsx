@@ -0,0 +1,90 @@
+import { useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Eye, ThumbsUp, ThumbsDown } from 'lucide-react';
+import { toast } from 'sonner';
+import { useWalletClient } from 'wagmi';
+import { TREASURY_DAO_ADDRESS } from '@/config/contracts';
+import { createDaoClient, walletClientToSigner } from '@/lib/dao-client';
+import { userDecrypt } from '@/lib/fhe';
+import { useFhe } from '@/hooks/use-fhe';
+import { useErrorToast } from '@/hooks/use-error-toast';
+
+interface RevealResultsProps {
+  proposalId: number;
+}
+
+interface Tally {
+  yes: bigint;
+  no: bigint;
+}
+
+const RevealResults = ({ proposalId }: RevealResultsProps) => {
+  const [tally, setTally] = useState<Tally | null>(null);
+  const [isRevealing, setIsRevealing] = useState(false);
+  const { data: walletClient } = useWalletClient();
+  const { getInstance } = useFhe();
+  const showError = useErrorToast();
+
+  const handleReveal = async () => {
+    if (!walletClient) {
+      toast.error('Please connect your wallet');
+      return;
+    }
+
+    setIsRevealing(true);
+
+    try {
+      const signer = walletClientToSigner(walletClient);
+      const dao = createDaoClient(signer);
+      const { yes: yesHandle, no: noHandle } = await dao.getEncryptedTally(proposalId);
+
+      toast.info('🔓 Decrypting Results', {
+        description: 'Sign the decryption request in your wallet...',
+      });
+
+      const fhe = await getInstance();
+      const values = await userDecrypt(fhe, TREASURY_DAO_ADDRESS, [yesHandle, noHandle], signer);
+
+      setTally({ yes: values[yesHandle], no: values[noHandle] });
+    } catch (error) {
+      console.error('Reveal error:', error);
+      showError('Failed to reveal results', error);
+    } finally {
+      setIsRevealing(false);
+    }
+  };
+
+  return (
+    <div className="mt-4 p-4 rounded-lg bg-primary/5 border border-primary/20">
+      {tally ? (
+        <div className="flex items-center gap-6">
+          <span className="flex items-center gap-2 text-sm font-medium">
+            <ThumbsUp className="w-4 h-4 text-primary" />
+            Yes: {tally.yes.toString()}
+          </span>
+          <span className="flex items-center gap-2 text-sm font-medium">
+            <ThumbsDown className="w-4 h-4 text-destructive" />
+            No: {tally.no.toString()}
+          </span>
+        </div>
+      ) : (
+        <div className="flex items-center justify-between gap-4">
+          <p className="text-xs text-muted-foreground">
+            Voting is closed. As the owner or proposer you can decrypt the final tally.
+          </p>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleReveal}
+            disabled={isRevealing}
+          >
+            <Eye className="w-4 h-4 mr-2" />
+            {isRevealing ? 'Decrypting...' : 'Reveal results'}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RevealResults;
@@ -0,0 +1,66 @@
+import { AlertTriangle, Fuel, Loader2 } from 'lucide-react';
+import { formatEther } from 'ethers';
+import { Button } from '@/components/ui/button';
+import type { TransactionPreview as Preview } from '@/lib/dao-client';
+import { decodeContractError, isRevertError } from '@/lib/contract-errors';
+import { getErrorMessage } from '@/lib/fhe-errors';
+
+interface TransactionPreviewProps {
+  preview?: Preview;
+  error: unknown;
+  isLoading: boolean;
+  /** Minimum deposit in wei, quoted when the revert is InsufficientDeposit */
+  minDeposit?: bigint;
+  /** Opens the deposit dialog, offered when the revert asks for a larger deposit */
+  onDeposit?: () => void;
+}
+
+const formatCost = (wei: bigint) => Number(formatEther(wei)).toPrecision(2);
+
+/**
+ * Result of simulating a transaction before it is sent: the estimated gas
+ * and fee, or the reason it would revert
+ */
+const TransactionPreview = ({ preview, error, isLoading, minDeposit, onDeposit }: TransactionPreviewProps) => {
+  if (isLoading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Simulating transaction...
+      </div>
+    );
+  }
+
+  if (error) {
+    const reverted = decodeContractError(error, { minDeposit });
+    return (
+      <div className="flex items-start gap-2 p-3 rounded-lg bg-destructive/10 text-sm text-destructive">
+        <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+        <div>
+          <p className="font-medium">
+            {isRevertError(error) ? 'This transaction would fail' : 'Could not simulate this transaction'}
+          </p>
+          <p>{reverted ? `${reverted.message} ${reverted.fix}` : getErrorMessage(error)}</p>
+          {reverted?.action === 'deposit' && onDeposit && (
+            <Button size="sm" variant="outline" className="mt-2" onClick={onDeposit}>
+              Deposit
+            </Button>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  if (!preview) return null;
+
+  return (
+    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+      <Fuel className="w-4 h-4" />
+      <span>
+        Estimated gas: <strong>{preview.gas.toLocaleString()}</strong> · up to {formatCost(preview.cost)} ETH in fees
+      </span>
+    </div>
+  );
+};
+
+export default TransactionPreview;
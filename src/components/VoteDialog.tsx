@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
 import {
   Dialog,
@@ -10,12 +10,19 @@ import {
 } from '@/components/ui/dialog';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
 import { Lock } from 'lucide-react';
 import { toast } from 'sonner';
-import { useAccount, useWalletClient } from 'wagmi';
-import { BrowserProvider, Contract } from 'ethers';
-import { TREASURY_DAO_ADDRESS, TREASURY_DAO_ABI } from '@/config/contracts';
-import { encryptVote } from '@/lib/fhe';
+import { explorerUrl } from '@/config/chains';
+import { useAccount } from 'wagmi';
+import { TREASURY_DAO_ADDRESS } from '@/config/contracts';
+import { useIsLegacyDao, useMinDeposit, useTransactionPreview, useVoteMutation } from '@/hooks/use-dao';
+import { encryptBallot, encryptLegacyBallot, type EncryptionStage } from '@/lib/fhe';
+import { useFhe } from '@/hooks/use-fhe';
+import { useErrorToast } from '@/hooks/use-error-toast';
+import { isRevertError } from '@/lib/contract-errors';
+import type { DaoTransaction } from '@/lib/dao-client';
+import TransactionPreview from './TransactionPreview';
 
 interface Proposal {
   id: number;
@@ -24,89 +31,140 @@ interface Proposal {
   amount: string;
 }
 
+const STAGE_LABELS: Record<EncryptionStage, string> = {
+  'loading-keys': 'Loading encryption keys...',
+  encrypting: 'Encrypting your vote and generating its proof...',
+};
+
+const STAGE_PROGRESS: Record<EncryptionStage, number> = {
+  'loading-keys': 20,
+  encrypting: 60,
+};
+
 interface VoteDialogProps {
   proposal: Proposal | null;
   open: boolean;
   onClose: () => void;
-  onSuccess: () => void;
+  /** Opens the deposit dialog when the vote is rejected for a too-small deposit */
+  onRequestDeposit?: () => void;
 }
 
-const VoteDialog = ({ proposal, open, onClose, onSuccess }: VoteDialogProps) => {
+const VoteDialog = ({ proposal, open, onClose, onRequestDeposit }: VoteDialogProps) => {
+  const showError = useErrorToast({ onDeposit: onRequestDeposit });
   const [voteChoice, setVoteChoice] = useState<'yes' | 'no' | ''>('');
   const [isVoting, setIsVoting] = useState(false);
+  const [stage, setStage] = useState<EncryptionStage | null>(null);
+  // The encrypted ballot, simulated and shown for review before it is sent
+  const [ballot, setBallot] = useState<Extract<DaoTransaction, { kind: 'vote' }> | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
   const { address } = useAccount();
-  const { data: walletClient } = useWalletClient();
+  const { getInstance } = useFhe();
+  const { mutateAsync: vote } = useVoteMutation();
+  const { data: minDeposit } = useMinDeposit();
+  const { data: isLegacy, refetch: refetchLegacy } = useIsLegacyDao();
+  const preview = useTransactionPreview(open ? ballot : null);
+  const willRevert = !!preview.error && isRevertError(preview.error);
 
-  const handleVote = async () => {
+  const handleChoice = (choice: 'yes' | 'no') => {
+    setVoteChoice(choice);
+    setBallot(null);
+  };
+
+  const handleEncrypt = async () => {
     if (!voteChoice) {
       toast.error('Please select Yes or No');
       return;
     }
 
-    if (!proposal || !address || !walletClient) {
+    if (!proposal || !address) {
       toast.error('Please connect your wallet');
       return;
     }
 
     setIsVoting(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
 
     try {
-      toast.info('🔐 Encrypting Vote', {
-        description: 'Encrypting your vote using FHE...',
-      });
+      // The ballot type depends on the deployment; wait for the check if it is still running
+      const legacy = isLegacy ?? (await refetchLegacy({ throwOnError: true })).data;
 
-      // Encrypt vote: 1 = yes, 0 = no
-      const voteValue: 0 | 1 = voteChoice === 'yes' ? 1 : 0;
-      const { encryptedVote, proof } = await encryptVote(
+      // Encrypt ballot as an ebool (true = yes, false = no), or a euint64 on legacy deployments
+      setStage('loading-keys');
+      const fhe = await getInstance();
+      const { encryptedSupport, proof } = await (legacy ? encryptLegacyBallot : encryptBallot)(
+        fhe,
         TREASURY_DAO_ADDRESS,
         address,
-        voteValue
+        voteChoice === 'yes',
+        { onProgress: setStage, signal: controller.signal }
       );
+      setBallot({ kind: 'vote', proposalId: proposal.id, encryptedSupport, inputProof: proof });
+    } catch (error: any) {
+      if (error?.name === 'AbortError') {
+        return;
+      }
+      console.error('Vote encryption error:', error);
+      showError('Failed to encrypt vote', error);
+    } finally {
+      abortRef.current = null;
+      setStage(null);
+      setIsVoting(false);
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!ballot) return;
+    setIsVoting(true);
 
+    try {
       toast.info('📝 Submitting Vote', {
         description: 'Sending encrypted vote to blockchain...',
       });
 
-      const provider = new BrowserProvider(walletClient);
-      const signer = await provider.getSigner();
-      const contract = new Contract(TREASURY_DAO_ADDRESS, TREASURY_DAO_ABI, signer);
-
-      const tx = await contract.vote(proposal.id, encryptedVote, proof);
-      const receipt = await tx.wait();
+      const receipt = await vote(ballot);
 
+      const txUrl = explorerUrl('tx', receipt.hash);
       toast.success('Vote submitted!', {
         description: (
           <div className="flex flex-col gap-1">
             <span>Your encrypted vote has been recorded</span>
-            <a
-              href={`https://sepolia.etherscan.io/tx/${receipt.hash}`}
-              target="_blank"
-              rel="noopener noreferrer"
-              className="text-xs text-blue-500 hover:text-blue-600 underline"
-            >
-              View transaction →
-            </a>
+            {txUrl && (
+              <a
+                href={txUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs text-blue-500 hover:text-blue-600 underline"
+              >
+                View transaction →
+              </a>
+            )}
           </div>
         ),
       });
 
       setVoteChoice('');
-      onSuccess();
+      setBallot(null);
       onClose();
-    } catch (error: any) {
+    } catch (error) {
       console.error('Vote error:', error);
-      toast.error('Failed to submit vote', {
-        description: error.message || 'Please try again',
-      });
+      showError('Failed to submit vote', error);
     } finally {
       setIsVoting(false);
     }
   };
 
+  // Closing the dialog aborts an encryption that is still in progress
+  const handleClose = () => {
+    abortRef.current?.abort();
+    setBallot(null);
+    onClose();
+  };
+
   if (!proposal) return null;
 
   return (
-    <Dialog open={open} onOpenChange={onClose}>
+    <Dialog open={open} onOpenChange={handleClose}>
       <DialogContent>
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
@@ -139,9 +197,18 @@ const VoteDialog = ({ proposal, open, onClose, onSuccess }: VoteDialogProps) =>
             </p>
           </div>
 
+          {stage && (
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-muted-foreground">{STAGE_LABELS[stage]}</span>
+              </div>
+              <Progress value={STAGE_PROGRESS[stage]} />
+            </div>
+          )}
+
           <div className="space-y-3">
             <Label>Select your vote:</Label>
-            <RadioGroup value={voteChoice} onValueChange={(val) => setVoteChoice(val as 'yes' | 'no')}>
+            <RadioGroup value={voteChoice} onValueChange={(val) => handleChoice(val as 'yes' | 'no')} disabled={isVoting}>
               <div className="flex items-center space-x-3 p-3 rounded-lg border-2 hover:border-primary transition-colors">
                 <RadioGroupItem value="yes" id="vote-yes" />
                 <Label htmlFor="vote-yes" className="flex-1 cursor-pointer">
@@ -156,19 +223,39 @@ const VoteDialog = ({ proposal, open, onClose, onSuccess }: VoteDialogProps) =>
               </div>
             </RadioGroup>
           </div>
+
+          {ballot && (
+            <TransactionPreview
+              preview={preview.data}
+              error={preview.error}
+              isLoading={preview.isFetching}
+              minDeposit={minDeposit}
+              onDeposit={onRequestDeposit}
+            />
+          )}
         </div>
 
         <DialogFooter>
-          <Button variant="outline" onClick={onClose} disabled={isVoting}>
+          <Button variant="outline" onClick={handleClose} disabled={isVoting && !stage}>
             Cancel
           </Button>
-          <Button
-            onClick={handleVote}
-            disabled={!voteChoice || isVoting}
-            className="bg-gradient-warm"
-          >
-            {isVoting ? 'Voting...' : 'Submit Encrypted Vote'}
-          </Button>
+          {ballot ? (
+            <Button
+              onClick={handleSubmit}
+              disabled={isVoting || preview.isFetching || willRevert}
+              className="bg-gradient-warm"
+            >
+              {isVoting ? 'Voting...' : 'Confirm Vote'}
+            </Button>
+          ) : (
+            <Button
+              onClick={handleEncrypt}
+              disabled={!voteChoice || isVoting}
+              className="bg-gradient-warm"
+            >
+              {stage ? 'Encrypting...' : 'Encrypt & Review'}
+            </Button>
+          )}
         </DialogFooter>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,168 @@
+import { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { AlertTriangle } from 'lucide-react';
+import { toast } from 'sonner';
+import { explorerUrl } from '@/config/chains';
+import { useAccount } from 'wagmi';
+import { formatEther } from 'ethers';
+import { useDeposit, useMinDeposit, useTransactionPreview, useWithdrawMutation } from '@/hooks/use-dao';
+import { useDebouncedValue } from '@/hooks/use-debounced-value';
+import { useErrorToast } from '@/hooks/use-error-toast';
+import { isRevertError } from '@/lib/contract-errors';
+import { parseEthAmount } from '@/lib/utils';
+import TransactionPreview from './TransactionPreview';
+
+interface WithdrawDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+const WithdrawDialog = ({ open, onClose }: WithdrawDialogProps) => {
+  const [amount, setAmount] = useState('');
+  const { address } = useAccount();
+  const { mutateAsync: withdraw, isPending: isWithdrawing } = useWithdrawMutation();
+  const showError = useErrorToast();
+  const { data: deposit = 0n } = useDeposit(address);
+  const { data: minDeposit } = useMinDeposit();
+  const parsedAmount = useMemo(() => parseEthAmount(amount), [amount]);
+  const debouncedAmount = useDebouncedValue(parsedAmount);
+  const preview = useTransactionPreview(
+    open && address && debouncedAmount ? { kind: 'withdraw', amount: debouncedAmount } : null
+  );
+  const willRevert = !!preview.error && isRevertError(preview.error);
+
+  // Warn only when the withdrawal is what takes away the right to vote
+  const losesVotingRights =
+    minDeposit !== undefined &&
+    parsedAmount !== null &&
+    parsedAmount <= deposit &&
+    deposit >= minDeposit &&
+    deposit - parsedAmount < minDeposit;
+
+  const handleWithdraw = async () => {
+    if (!parsedAmount) {
+      toast.error('Please enter a valid amount');
+      return;
+    }
+
+    if (!address) {
+      toast.error('Please connect your wallet');
+      return;
+    }
+
+    try {
+      toast.info('Withdrawing...', {
+        description: `Withdrawing ${amount} ETH from treasury`,
+      });
+
+      const receipt = await withdraw(parsedAmount);
+
+      const txUrl = explorerUrl('tx', receipt.hash);
+      toast.success('Withdrawal successful!', {
+        description: (
+          <div className="flex flex-col gap-1">
+            <span>{amount} ETH returned to your wallet</span>
+            {txUrl && (
+              <a
+                href={txUrl}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-xs text-blue-500 hover:text-blue-600 underline"
+              >
+                View transaction →
+              </a>
+            )}
+          </div>
+        ),
+      });
+
+      setAmount('');
+      onClose();
+    } catch (error) {
+      console.error('Withdraw error:', error);
+      showError('Withdrawal failed', error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Withdraw from Treasury</DialogTitle>
+          <DialogDescription>
+            Withdraw ETH from your deposit. Available: {formatEther(deposit)} ETH
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-4">
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="withdraw-amount">Amount (ETH)</Label>
+              <Button
+                variant="link"
+                size="sm"
+                className="h-auto p-0"
+                onClick={() => setAmount(formatEther(deposit))}
+                disabled={isWithdrawing || deposit === 0n}
+              >
+                Max
+              </Button>
+            </div>
+            <Input
+              id="withdraw-amount"
+              type="number"
+              step="0.001"
+              min="0"
+              placeholder="0.001"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              disabled={isWithdrawing}
+            />
+          </div>
+
+          {losesVotingRights && (
+            <div className="flex items-start gap-2 p-3 rounded-lg bg-muted text-sm">
+              <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0 text-primary" />
+              <p>
+                This leaves you with {formatEther(deposit - parsedAmount)} ETH, below the{' '}
+                {formatEther(minDeposit)} ETH minimum. You will no longer be able to vote or create proposals.
+              </p>
+            </div>
+          )}
+
+          <TransactionPreview
+            preview={preview.data}
+            error={preview.error}
+            isLoading={preview.isFetching}
+            minDeposit={minDeposit}
+          />
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose} disabled={isWithdrawing}>
+            Cancel
+          </Button>
+          <Button
+            onClick={handleWithdraw}
+            disabled={isWithdrawing || !parsedAmount || willRevert}
+            className="bg-gradient-warm"
+          >
+            {isWithdrawing ? 'Withdrawing...' : 'Withdraw'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WithdrawDialog;
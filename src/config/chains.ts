@@ -0,0 +1,25 @@
+import type { Chain } from 'viem';
+import { hardhat, sepolia } from 'wagmi/chains';
+
+// Chains the app can run against: Sepolia, or a local Hardhat node for development
+export const SUPPORTED_CHAINS: readonly Chain[] = [sepolia, hardhat];
+
+const configuredChainId = Number(import.meta.env.VITE_DAO_CHAIN_ID || sepolia.id);
+const daoChain = SUPPORTED_CHAINS.find((chain) => chain.id === configuredChainId);
+if (!daoChain) {
+  throw new Error(
+    `Unsupported VITE_DAO_CHAIN_ID ${configuredChainId}; use one of ${SUPPORTED_CHAINS.map((chain) => chain.id).join(', ')}`
+  );
+}
+
+// The chain the DAO is read from and the wallet must be on (VITE_DAO_CHAIN_ID, default Sepolia)
+export const DAO_CHAIN = daoChain;
+
+/**
+ * Block explorer page of a transaction or address on the DAO chain, or null
+ * when the chain has no explorer (a local node)
+ */
+export const explorerUrl = (kind: 'tx' | 'address', value: string): string | null => {
+  const base = DAO_CHAIN.blockExplorers?.default.url;
+  return base ? `${base}/${kind}/${value}` : null;
+};
@@ -1,130 +1,26 @@
-export const TREASURY_DAO_ADDRESS = "0x0719D5CA99339B9b78917EE7b644065B33a77850" as `0x${string}`;
+import { DAO_CHAIN } from "./chains";
+import { simpleTreasuryDaoAbi, treasuryDaoAbi } from "./abis";
+import { getDeployment } from "./deployments";
 
-export const TREASURY_DAO_ABI = [
-  {
-    "inputs": [{"internalType": "uint256", "name": "_minDepositToVote", "type": "uint256"}],
-    "stateMutability": "nonpayable",
-    "type": "constructor"
-  },
-  {
-    "inputs": [],
-    "name": "deposit",
-    "outputs": [],
-    "stateMutability": "payable",
-    "type": "function"
-  },
-  {
-    "inputs": [{"internalType": "uint256", "name": "amount", "type": "uint256"}],
-    "name": "withdraw",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {"internalType": "string", "name": "title", "type": "string"},
-      {"internalType": "string", "name": "description", "type": "string"},
-      {"internalType": "uint256", "name": "amount", "type": "uint256"},
-      {"internalType": "address", "name": "recipient", "type": "address"},
-      {"internalType": "uint256", "name": "votingPeriodDays", "type": "uint256"}
-    ],
-    "name": "createProposal",
-    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {"internalType": "uint256", "name": "proposalId", "type": "uint256"},
-      {"internalType": "bytes32", "name": "encryptedVote", "type": "bytes32"},
-      {"internalType": "bytes", "name": "inputProof", "type": "bytes"}
-    ],
-    "name": "vote",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [{"internalType": "uint256", "name": "proposalId", "type": "uint256"}],
-    "name": "finalizeProposal",
-    "outputs": [],
-    "stateMutability": "nonpayable",
-    "type": "function"
-  },
-  {
-    "inputs": [],
-    "name": "getProposalCount",
-    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [{"internalType": "uint256", "name": "proposalId", "type": "uint256"}],
-    "name": "getProposal",
-    "outputs": [
-      {"internalType": "uint256", "name": "id", "type": "uint256"},
-      {"internalType": "string", "name": "title", "type": "string"},
-      {"internalType": "string", "name": "description", "type": "string"},
-      {"internalType": "address", "name": "proposer", "type": "address"},
-      {"internalType": "uint256", "name": "amount", "type": "uint256"},
-      {"internalType": "address", "name": "recipient", "type": "address"},
-      {"internalType": "uint256", "name": "deadline", "type": "uint256"},
-      {"internalType": "bool", "name": "finalized", "type": "bool"}
-    ],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [{"internalType": "address", "name": "", "type": "address"}],
-    "name": "deposits",
-    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [],
-    "name": "minDepositToVote",
-    "outputs": [{"internalType": "uint256", "name": "", "type": "uint256"}],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "inputs": [
-      {"internalType": "uint256", "name": "", "type": "uint256"},
-      {"internalType": "address", "name": "", "type": "address"}
-    ],
-    "name": "hasVoted",
-    "outputs": [{"internalType": "bool", "name": "", "type": "bool"}],
-    "stateMutability": "view",
-    "type": "function"
-  },
-  {
-    "anonymous": false,
-    "inputs": [
-      {"indexed": true, "internalType": "address", "name": "user", "type": "address"},
-      {"indexed": false, "internalType": "uint256", "name": "amount", "type": "uint256"}
-    ],
-    "name": "Deposited",
-    "type": "event"
-  },
-  {
-    "anonymous": false,
-    "inputs": [
-      {"indexed": true, "internalType": "uint256", "name": "id", "type": "uint256"},
-      {"indexed": false, "internalType": "string", "name": "title", "type": "string"},
-      {"indexed": false, "internalType": "uint256", "name": "amount", "type": "uint256"},
-      {"indexed": false, "internalType": "address", "name": "recipient", "type": "address"}
-    ],
-    "name": "ProposalCreated",
-    "type": "event"
-  },
-  {
-    "anonymous": false,
-    "inputs": [
-      {"indexed": true, "internalType": "uint256", "name": "proposalId", "type": "uint256"},
-      {"indexed": true, "internalType": "address", "name": "voter", "type": "address"}
-    ],
-    "name": "VoteCast",
-    "type": "event"
-  }
-] as const;
+// The chain the app reads from (see config/chains.ts)
+export const DAO_CHAIN_ID = DAO_CHAIN.id;
+
+const daoDeployment = getDeployment(DAO_CHAIN_ID, "SimpleTreasuryDAO");
+if (!daoDeployment) {
+  throw new Error(`No SimpleTreasuryDAO deployment for chain ${DAO_CHAIN_ID}; add it to deployments.json or set VITE_DAO_ADDRESS`);
+}
+
+export const TREASURY_DAO_ADDRESS = daoDeployment.address;
+// Undefined when the address comes from an override rather than the registry
+export const TREASURY_DAO_DEPLOY_BLOCK = daoDeployment.blockNumber;
+
+// ABIs are generated from the Hardhat artifacts (npm run abi:generate)
+export const TREASURY_DAO_ABI = simpleTreasuryDaoAbi;
+
+// Multicall3 is deployed at the same address on Sepolia and most other chains
+export const MULTICALL3_ADDRESS = "0xcA11bde05977b3631167028862bE2a173976CA11" as `0x${string}`;
+
+// Confidential treasury (contracts/TreasuryDAO.sol): balance and spend amounts are encrypted
+export const CONFIDENTIAL_TREASURY_ADDRESS = getDeployment(DAO_CHAIN_ID, "TreasuryDAO")?.address ?? ("" as `0x${string}`);
+
+export const CONFIDENTIAL_TREASURY_ABI = treasuryDaoAbi;
@@ -0,0 +1,30 @@
+import registry from "../../deployments.json";
+
+export type ContractName = "SimpleTreasuryDAO" | "TreasuryDAO";
+
+export interface Deployment {
+  address: `0x${string}`;
+  /** Block the contract was deployed in, when recorded by scripts/deploy.cjs */
+  blockNumber?: number;
+  deployedAt?: string;
+}
+
+// deployments.json is written by the deploy scripts, keyed by chain ID then contract name
+const deployments = registry as Record<string, Partial<Record<ContractName, Deployment>>>;
+
+// Per-environment overrides that take precedence over the registry
+const ADDRESS_OVERRIDES: Record<ContractName, string | undefined> = {
+  SimpleTreasuryDAO: import.meta.env.VITE_DAO_ADDRESS,
+  TreasuryDAO: import.meta.env.VITE_CONFIDENTIAL_TREASURY_ADDRESS,
+};
+
+/**
+ * Where `name` is deployed on `chainId`, or undefined if it is not
+ */
+export const getDeployment = (chainId: number, name: ContractName): Deployment | undefined => {
+  const override = ADDRESS_OVERRIDES[name];
+  if (override) {
+    return { address: override as `0x${string}` };
+  }
+  return deployments[String(chainId)]?.[name];
+};
@@ -0,0 +1,35 @@
+import { hardhat, sepolia } from 'wagmi/chains';
+import type { FheBackendKind } from '@/lib/fhe-backend';
+import { DAO_CHAIN } from './chains';
+
+// Set VITE_FHE_BACKEND=mock to use the mock on every chain (fully offline).
+// Otherwise the wallet's chain decides: the mock on FHE_MOCK_CONFIG.chainId, the relayer elsewhere.
+export const FHE_BACKEND: FheBackendKind =
+  import.meta.env.VITE_FHE_BACKEND === 'mock' ? 'mock' : 'relayer';
+
+// The Zama relayer only serves Sepolia; the wallet must be on this chain to encrypt
+export const FHE_RELAYER_CHAIN_ID = sepolia.id;
+
+// How long a signed user-decryption authorization (and its keypair) is reused
+export const FHE_DECRYPTION_VALIDITY_DAYS = Number(import.meta.env.VITE_FHE_DECRYPTION_VALIDITY_DAYS || 7);
+
+export const FHE_MOCK_CONFIG = {
+  chainId: Number(import.meta.env.VITE_FHE_MOCK_CHAIN_ID || hardhat.id),
+  // The fhevm Hardhat plugin deploys its mock host contracts at the Sepolia addresses
+  aclContractAddress: '0x687820221192C5B662b25367F70076A37bc79b6c',
+  verifyingContractAddressDecryption: '0xb6E160B1ff80D67Bfe90A85eE06Ce0A2613607D1',
+  gatewayChainId: 55815,
+  // Optional: a Hardhat node running the fhevm plugin, used to sign input proofs
+  // and look up cleartexts of on-chain results. Defaults to the local node when
+  // the DAO runs on it; empty means in-memory only.
+  rpcUrl:
+    (import.meta.env.VITE_FHE_MOCK_RPC_URL as string | undefined) ||
+    (DAO_CHAIN.id === hardhat.id ? import.meta.env.VITE_LOCAL_RPC_URL || hardhat.rpcUrls.default.http[0] : ''),
+};
+
+// Self-hosted copy of the relayer SDK UMD build, used only if the bundled
+// module fails to load. The integrity hash is mandatory when a URL is set.
+export const FHE_SDK_FALLBACK = {
+  url: (import.meta.env.VITE_FHE_SDK_URL as string | undefined) || '',
+  integrity: (import.meta.env.VITE_FHE_SDK_INTEGRITY as string | undefined) || '',
+};
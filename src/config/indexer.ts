@@ -0,0 +1,3 @@
+// Base URL of the optional event indexer (indexer/), e.g. http://localhost:4000.
+// When empty, all data is read straight from the chain.
+export const INDEXER_URL = ((import.meta.env.VITE_INDEXER_URL as string | undefined) || '').replace(/\/$/, '');
@@ -1,9 +1,18 @@
 import { getDefaultConfig } from '@rainbow-me/rainbowkit';
-import { sepolia } from 'wagmi/chains';
+import { http } from 'wagmi';
+import { hardhat, sepolia } from 'wagmi/chains';
+import { DAO_CHAIN } from './chains';
 
 export const config = getDefaultConfig({
   appName: 'TreasuryDAO',
   projectId: process.env.VITE_WALLETCONNECT_PROJECT_ID || '0123456789abcdef0123456789abcdef', // Fallback for development
-  chains: [sepolia],
+  // Only the DAO's chain, so wallets on any other chain are asked to switch
+  chains: [DAO_CHAIN],
+  // Used for all reads, so proposals can be browsed without a wallet.
+  // Falls back to the chain's public RPC when no URL is configured.
+  transports: {
+    [sepolia.id]: http(import.meta.env.VITE_SEPOLIA_RPC_URL || undefined),
+    [hardhat.id]: http(import.meta.env.VITE_LOCAL_RPC_URL || undefined),
+  },
   ssr: false,
 });
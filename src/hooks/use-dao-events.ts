@@ -0,0 +1,21 @@
+import { createContext, useContext } from "react";
+
+export interface DaoActivityContextValue {
+  /** Proposals touched by an event since the user last looked */
+  recentProposalIds: ReadonlySet<number>;
+  /** Events received since the user last looked */
+  unseen: number;
+  /** True when the event subscription failed and data is refreshed by polling instead */
+  polling: boolean;
+  markSeen: () => void;
+}
+
+export const DaoActivityContext = createContext<DaoActivityContextValue | null>(null);
+
+export function useDaoActivity() {
+  const context = useContext(DaoActivityContext);
+  if (!context) {
+    throw new Error("useDaoActivity must be used within a DaoEventsProvider");
+  }
+  return context;
+}
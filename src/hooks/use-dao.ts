@@ -0,0 +1,498 @@
+import { useMemo } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { useAccount, usePublicClient, useWalletClient } from "wagmi";
+import { TREASURY_DAO_ADDRESS, TREASURY_DAO_DEPLOY_BLOCK } from "@/config/contracts";
+import { INDEXER_URL } from "@/config/indexer";
+import {
+  clientToProvider,
+  createDaoClient,
+  MAX_VOTING_PERIOD_DAYS,
+  walletClientToSigner,
+  type CreateProposalParams,
+  type DaoClient,
+  type DaoEvent,
+  type DaoTransaction,
+  type Proposal,
+  type TallyStatus,
+  type VoteRecord,
+} from "@/lib/dao-client";
+import { isRevertError } from "@/lib/contract-errors";
+import { createIndexerClient, type IndexedActivity, type IndexerClient } from "@/lib/indexer-client";
+
+// How often to re-check proposals whose tally is still being decrypted
+const DECRYPTION_POLL_MS = 15_000;
+
+// How far back, and how many, events useRecentEvents shows
+const RECENT_EVENTS_DAYS = 7;
+const RECENT_EVENTS_LIMIT = 8;
+
+// Window useDepositHistory scans when neither the indexer nor a deployment block is available
+const DEPOSIT_HISTORY_FALLBACK_DAYS = 30;
+
+const indexer = INDEXER_URL ? createIndexerClient(INDEXER_URL) : null;
+
+// Block of the newest transaction sent from this tab
+let lastMutationBlock = 0;
+
+const recordMutation = (receipt: { blockNumber: number }) => {
+  lastMutationBlock = Math.max(lastMutationBlock, receipt.blockNumber);
+};
+
+/**
+ * Whether the indexer has indexed the newest transaction sent from this tab.
+ * It trails the head by its confirmations, so reading it sooner would undo the
+ * cache updates made for that transaction; the chain is read instead.
+ */
+const indexerCaughtUp = async (client: IndexerClient) => {
+  if (lastMutationBlock === 0) return true;
+  try {
+    return ((await client.getLastBlock()) ?? -1) >= lastMutationBlock;
+  } catch {
+    return false;
+  }
+};
+
+export type ProposalWithStatus = Proposal & TallyStatus & { hasVoted: boolean };
+
+/**
+ * Query keys, all scoped to the DAO contract so a redeploy never serves stale data
+ */
+export const daoKeys = {
+  all: ["dao", TREASURY_DAO_ADDRESS] as const,
+  proposals: (account?: string) => [...daoKeys.all, "proposals", account?.toLowerCase()] as const,
+  proposal: (id: number) => [...daoKeys.all, "proposal", id] as const,
+  deposit: (account?: string) => [...daoKeys.all, "deposit", account?.toLowerCase()] as const,
+  hasVoted: (id: number, account?: string) => [...daoKeys.all, "hasVoted", id, account?.toLowerCase()] as const,
+  votes: (id: number) => [...daoKeys.all, "votes", id] as const,
+  balance: () => [...daoKeys.all, "balance"] as const,
+  depositors: () => [...daoKeys.all, "depositors"] as const,
+  events: () => [...daoKeys.all, "events"] as const,
+  depositHistory: (account?: string) => [...daoKeys.all, "depositHistory", account?.toLowerCase()] as const,
+  minDeposit: () => [...daoKeys.all, "minDeposit"] as const,
+  owner: () => [...daoKeys.all, "owner"] as const,
+  legacy: () => [...daoKeys.all, "legacy"] as const,
+  previews: (account?: string) => [...daoKeys.all, "preview", account?.toLowerCase()] as const,
+  // bigint fields are stringified; React Query cannot hash them
+  preview: (account: string | undefined, transaction: DaoTransaction | null) =>
+    [
+      ...daoKeys.previews(account),
+      JSON.stringify(transaction, (_, value) => (typeof value === "bigint" ? value.toString() : value)),
+    ] as const,
+};
+
+/**
+ * Read-only DAO client over the configured public RPC; works without a wallet
+ */
+export function useDaoReader(): DaoClient | null {
+  const publicClient = usePublicClient();
+  return useMemo(
+    () => (publicClient ? createDaoClient(clientToProvider(publicClient)) : null),
+    [publicClient]
+  );
+}
+
+/**
+ * DAO client for the connected wallet (for transactions), or null while disconnected
+ */
+export function useDaoClient(): DaoClient | null {
+  const { data: walletClient } = useWalletClient();
+  return useMemo(
+    () => (walletClient ? createDaoClient(walletClientToSigner(walletClient)) : null),
+    [walletClient]
+  );
+}
+
+const requireClient = (dao: DaoClient | null) => {
+  if (!dao) throw new Error("Please connect your wallet");
+  return dao;
+};
+
+/**
+ * Every proposal with its tally status and the connected account's hasVoted flag.
+ * Served by the indexer when VITE_INDEXER_URL is set, falling back to the chain
+ * if it is unreachable or behind this tab's last transaction. Polls while any tally is waiting on the decryption oracle.
+ */
+export function useProposals() {
+  const dao = useDaoReader();
+  const { address } = useAccount();
+
+  return useQuery({
+    queryKey: daoKeys.proposals(address),
+    enabled: !!dao,
+    queryFn: async (): Promise<ProposalWithStatus[]> => {
+      if (indexer && (await indexerCaughtUp(indexer))) {
+        try {
+          const proposals = await indexer.listProposals(address);
+          return proposals.map((proposal) => ({ ...proposal, hasVoted: proposal.hasVoted ?? false }));
+        } catch (error) {
+          console.warn("Indexer unavailable, reading proposals from the chain:", error);
+        }
+      }
+
+      const client = requireClient(dao);
+      const proposals = await client.listProposals(address);
+      const tallies = await client.getTallyStatuses(
+        proposals.filter((proposal) => proposal.finalized).map((proposal) => proposal.id)
+      );
+
+      return proposals.map((proposal) => ({
+        ...proposal,
+        hasVoted: proposal.hasVoted ?? false,
+        decryptionPending: tallies.get(proposal.id)?.decryptionPending ?? false,
+        tally: tallies.get(proposal.id)?.tally ?? null,
+      }));
+    },
+    refetchInterval: (query) =>
+      query.state.data?.some((proposal) => proposal.decryptionPending) ? DECRYPTION_POLL_MS : false,
+  });
+}
+
+/**
+ * One proposal with its tally status; pass undefined (e.g. for an unparseable
+ * route parameter) to skip the query
+ */
+export function useProposal(id: number | undefined) {
+  const dao = useDaoReader();
+
+  return useQuery({
+    queryKey: daoKeys.proposal(id ?? -1),
+    enabled: !!dao && id !== undefined,
+    queryFn: async (): Promise<Proposal & TallyStatus> => {
+      const client = requireClient(dao);
+      const proposal = await client.getProposal(id!);
+      const status = proposal.finalized
+        ? await client.getTallyStatus(id!)
+        : { decryptionPending: false, tally: null };
+      return { ...proposal, ...status };
+    },
+    // A revert (e.g. ProposalNotFound) will not go away by retrying
+    retry: (failureCount, error) => !isRevertError(error) && failureCount < 3,
+    refetchInterval: (query) => (query.state.data?.decryptionPending ? DECRYPTION_POLL_MS : false),
+  });
+}
+
+/**
+ * Who voted on a proposal and when (ballots stay encrypted), oldest first.
+ * Served by the indexer when configured; otherwise scans VoteCast logs from the
+ * deployment block, or from the earliest block the proposal could have been
+ * created in given its deadline.
+ */
+export function useProposalVotes(id: number, deadline?: number) {
+  const dao = useDaoReader();
+
+  return useQuery({
+    queryKey: daoKeys.votes(id),
+    enabled: !!dao && deadline !== undefined,
+    queryFn: async (): Promise<VoteRecord[]> => {
+      if (indexer && (await indexerCaughtUp(indexer))) {
+        try {
+          return await indexer.getVoters(id);
+        } catch (error) {
+          console.warn("Indexer unavailable, reading votes from the chain:", error);
+        }
+      }
+
+      const client = requireClient(dao);
+      const fromBlock =
+        TREASURY_DAO_DEPLOY_BLOCK ??
+        (await client.estimateBlockAt(deadline! - MAX_VOTING_PERIOD_DAYS * 24 * 60 * 60));
+      return client.getVotes(id, fromBlock);
+    },
+  });
+}
+
+/**
+ * ETH held by the DAO contract, in wei
+ */
+export function useTreasuryBalance() {
+  const dao = useDaoReader();
+
+  return useQuery({
+    queryKey: daoKeys.balance(),
+    enabled: !!dao,
+    queryFn: () => requireClient(dao).getBalance(),
+  });
+}
+
+// Indexer Deposited/Withdrawn entries in the shape the chain fallback returns
+const fromIndexedMovement = ({ event, account, args, blockNumber, timestamp, txHash }: IndexedActivity): DaoEvent => ({
+  name: event,
+  account: account ?? undefined,
+  amount: BigInt(args.amount as string),
+  blockNumber,
+  timestamp,
+  txHash,
+});
+
+// Accounts whose deposits minus withdrawals are still positive
+const countDepositors = (movements: Pick<DaoEvent, "name" | "account" | "amount">[]) => {
+  const balances = new Map<string, bigint>();
+  for (const { name, account, amount } of movements) {
+    if (!account || amount === undefined) continue;
+    const key = account.toLowerCase();
+    balances.set(key, (balances.get(key) ?? 0n) + (name === "Deposited" ? amount : -amount));
+  }
+  return [...balances.values()].filter((balance) => balance > 0n).length;
+};
+
+/**
+ * Number of accounts with a deposit in the treasury, or null when it cannot be
+ * counted: that needs the indexer or a deployment block to scan events from
+ */
+export function useDepositorCount() {
+  const dao = useDaoReader();
+
+  return useQuery({
+    queryKey: daoKeys.depositors(),
+    enabled: !!dao,
+    queryFn: async (): Promise<number | null> => {
+      if (indexer && (await indexerCaughtUp(indexer))) {
+        try {
+          return countDepositors((await indexer.getDeposits()).map(fromIndexedMovement));
+        } catch (error) {
+          console.warn("Indexer unavailable, reading deposits from the chain:", error);
+        }
+      }
+
+      if (TREASURY_DAO_DEPLOY_BLOCK === undefined) return null;
+      const events = await requireClient(dao).getEvents(TREASURY_DAO_DEPLOY_BLOCK);
+      return countDepositors(events.filter(({ name }) => name === "Deposited" || name === "Withdrawn"));
+    },
+  });
+}
+
+/**
+ * The latest DAO events of the past week, newest first
+ */
+export function useRecentEvents() {
+  const dao = useDaoReader();
+
+  return useQuery({
+    queryKey: daoKeys.events(),
+    enabled: !!dao,
+    queryFn: async (): Promise<DaoEvent[]> => {
+      const client = requireClient(dao);
+      const fromBlock = await client.estimateBlockAt(Math.floor(Date.now() / 1000) - RECENT_EVENTS_DAYS * 24 * 60 * 60);
+      const events = await client.getEvents(fromBlock);
+      return events.slice(-RECENT_EVENTS_LIMIT).reverse();
+    },
+  });
+}
+
+export interface DepositHistory {
+  /** Deposits and withdrawals, newest first */
+  movements: DaoEvent[];
+  /** Start of the scanned window (Unix seconds) when the history may be incomplete */
+  since: number | null;
+}
+
+/**
+ * An account's deposits and withdrawals. Complete when served by the indexer or
+ * scanned from the deployment block; otherwise covers the last 30 days only.
+ */
+export function useDepositHistory(address?: string) {
+  const dao = useDaoReader();
+
+  return useQuery({
+    queryKey: daoKeys.depositHistory(address),
+    enabled: !!dao && !!address,
+    queryFn: async (): Promise<DepositHistory> => {
+      if (indexer && (await indexerCaughtUp(indexer))) {
+        try {
+          // Already newest first
+          return { movements: (await indexer.getDeposits(address)).map(fromIndexedMovement), since: null };
+        } catch (error) {
+          console.warn("Indexer unavailable, reading deposits from the chain:", error);
+        }
+      }
+
+      const client = requireClient(dao);
+      const since =
+        TREASURY_DAO_DEPLOY_BLOCK === undefined
+          ? Math.floor(Date.now() / 1000) - DEPOSIT_HISTORY_FALLBACK_DAYS * 24 * 60 * 60
+          : null;
+      const fromBlock = since === null ? TREASURY_DAO_DEPLOY_BLOCK! : await client.estimateBlockAt(since);
+      const movements = await client.getDepositHistory(address!, fromBlock);
+      return { movements: movements.reverse(), since };
+    },
+  });
+}
+
+export function useDeposit(address?: string) {
+  const dao = useDaoReader();
+
+  return useQuery({
+    queryKey: daoKeys.deposit(address),
+    enabled: !!dao && !!address,
+    queryFn: () => requireClient(dao).getDeposit(address!),
+  });
+}
+
+export function useHasVoted(id: number, address?: string) {
+  const dao = useDaoReader();
+
+  return useQuery({
+    queryKey: daoKeys.hasVoted(id, address),
+    enabled: !!dao && !!address,
+    queryFn: () => requireClient(dao).hasVoted(id, address!),
+  });
+}
+
+export function useMinDeposit() {
+  const dao = useDaoReader();
+
+  return useQuery({
+    queryKey: daoKeys.minDeposit(),
+    enabled: !!dao,
+    queryFn: () => requireClient(dao).getMinDeposit(),
+    staleTime: Infinity,
+  });
+}
+
+export function useDaoOwner() {
+  const dao = useDaoReader();
+
+  return useQuery({
+    queryKey: daoKeys.owner(),
+    enabled: !!dao,
+    queryFn: () => requireClient(dao).getOwner(),
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * Whether the configured contract is a legacy deployment that takes euint64 ballots
+ */
+export function useIsLegacyDao() {
+  const dao = useDaoReader();
+
+  return useQuery({
+    queryKey: daoKeys.legacy(),
+    enabled: !!dao,
+    queryFn: () => requireClient(dao).isLegacy(),
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * Simulate `transaction` from the connected account (null to skip): resolves to
+ * the gas estimate, or fails with the revert the transaction would hit
+ */
+export function useTransactionPreview(transaction: DaoTransaction | null) {
+  const dao = useDaoClient();
+  const { address } = useAccount();
+
+  return useQuery({
+    queryKey: daoKeys.preview(address, transaction),
+    enabled: !!dao && !!transaction,
+    queryFn: () => requireClient(dao).preview(transaction!),
+    retry: false,
+    staleTime: 15_000,
+  });
+}
+
+/**
+ * Deposit ETH (amount in wei); refreshes the depositor's balance once mined
+ */
+export function useDepositMutation() {
+  const dao = useDaoClient();
+  const { address } = useAccount();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (amount: bigint) => requireClient(dao).deposit(amount),
+    onSuccess: (receipt) => {
+      recordMutation(receipt);
+      return Promise.all([
+        queryClient.invalidateQueries({ queryKey: daoKeys.deposit(address) }),
+        queryClient.invalidateQueries({ queryKey: daoKeys.depositHistory(address) }),
+      ]);
+    },
+  });
+}
+
+/**
+ * Withdraw part of the caller's deposit (amount in wei); refreshes their balance,
+ * and with it their voting eligibility, once mined
+ */
+export function useWithdrawMutation() {
+  const dao = useDaoClient();
+  const { address } = useAccount();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (amount: bigint) => requireClient(dao).withdraw(amount),
+    onSuccess: (receipt) => {
+      recordMutation(receipt);
+      return Promise.all([
+        queryClient.invalidateQueries({ queryKey: daoKeys.deposit(address) }),
+        queryClient.invalidateQueries({ queryKey: daoKeys.depositHistory(address) }),
+      ]);
+    },
+  });
+}
+
+interface VoteVariables {
+  proposalId: number;
+  encryptedSupport: `0x${string}`;
+  inputProof: `0x${string}`;
+}
+
+/**
+ * Submit an encrypted ballot; refreshes the proposal and the voter's flags once mined
+ */
+export function useVoteMutation() {
+  const dao = useDaoClient();
+  const { address } = useAccount();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ proposalId, encryptedSupport, inputProof }: VoteVariables) =>
+      requireClient(dao).vote(proposalId, encryptedSupport, inputProof),
+    onSuccess: (receipt, { proposalId }) => {
+      recordMutation(receipt);
+      return Promise.all([
+        queryClient.invalidateQueries({ queryKey: daoKeys.proposals(address) }),
+        queryClient.invalidateQueries({ queryKey: daoKeys.proposal(proposalId) }),
+        queryClient.invalidateQueries({ queryKey: daoKeys.hasVoted(proposalId, address) }),
+        queryClient.invalidateQueries({ queryKey: daoKeys.votes(proposalId) }),
+      ]);
+    },
+  });
+}
+
+/**
+ * Create a proposal; refreshes every account's proposal list once mined
+ */
+export function useCreateProposalMutation() {
+  const dao = useDaoClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (params: CreateProposalParams) => requireClient(dao).createProposal(params),
+    onSuccess: (receipt) => {
+      recordMutation(receipt);
+      return queryClient.invalidateQueries({ queryKey: [...daoKeys.all, "proposals"] });
+    },
+  });
+}
+
+/**
+ * Finalize a proposal after its deadline (owner or proposer only), which asks the
+ * oracle to decrypt the tally; refreshes the proposal lists and the proposal once mined
+ */
+export function useFinalizeMutation() {
+  const dao = useDaoClient();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (proposalId: number) => requireClient(dao).finalize(proposalId),
+    onSuccess: (receipt, proposalId) => {
+      recordMutation(receipt);
+      return Promise.all([
+        queryClient.invalidateQueries({ queryKey: [...daoKeys.all, "proposals"] }),
+        queryClient.invalidateQueries({ queryKey: daoKeys.proposal(proposalId) }),
+      ]);
+    },
+  });
+}
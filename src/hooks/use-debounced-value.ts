@@ -0,0 +1,15 @@
+import { useEffect, useState } from "react";
+
+/**
+ * `value`, updated only after it has stopped changing for `delayMs`
+ */
+export function useDebouncedValue<T>(value: T, delayMs = 400): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delayMs);
+    return () => clearTimeout(timer);
+  }, [value, delayMs]);
+
+  return debounced;
+}
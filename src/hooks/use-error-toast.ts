@@ -0,0 +1,33 @@
+import { useCallback } from "react";
+import { toast } from "sonner";
+import { useMinDeposit } from "@/hooks/use-dao";
+import { decodeContractError } from "@/lib/contract-errors";
+import { getErrorMessage } from "@/lib/fhe-errors";
+
+interface ErrorToastOptions {
+  /** Opens the deposit dialog; offered when the contract asks for a larger deposit */
+  onDeposit?: () => void;
+}
+
+/**
+ * Error toast that explains contract reverts and suggests a fix, with a
+ * shortcut button when the fix is something the app can open for the user
+ */
+export function useErrorToast({ onDeposit }: ErrorToastOptions = {}) {
+  const { data: minDeposit } = useMinDeposit();
+
+  return useCallback(
+    (title: string, error: unknown) => {
+      const reverted = decodeContractError(error, { minDeposit });
+
+      toast.error(title, {
+        description: reverted ? `${reverted.message} ${reverted.fix}` : getErrorMessage(error),
+        action:
+          reverted?.action === "deposit" && onDeposit
+            ? { label: "Deposit", onClick: onDeposit }
+            : undefined,
+      });
+    },
+    [minDeposit, onDeposit]
+  );
+}
@@ -0,0 +1,21 @@
+import { createContext, useContext } from "react";
+import type { FheBackend } from "@/lib/fhe";
+
+export type FheStatus = "idle" | "loading" | "ready" | "error";
+
+export interface FheContextValue {
+  /** Resolve the instance for the connected wallet, creating it on first use */
+  getInstance: () => Promise<FheBackend>;
+  status: FheStatus;
+  error: Error | null;
+}
+
+export const FheContext = createContext<FheContextValue | null>(null);
+
+export function useFhe() {
+  const context = useContext(FheContext);
+  if (!context) {
+    throw new Error("useFhe must be used within a FheProvider");
+  }
+  return context;
+}
@@ -0,0 +1,178 @@
+import { formatEther, Interface } from "ethers";
+import { simpleTreasuryDaoAbi, treasuryDaoAbi } from "@/config/abis";
+
+type AbiErrorName<TAbi extends readonly { type: string }[]> = Extract<TAbi[number], { type: "error"; name: string }>["name"];
+
+/** Every custom error either contract can revert with */
+export type ContractErrorName = AbiErrorName<typeof simpleTreasuryDaoAbi> | AbiErrorName<typeof treasuryDaoAbi>;
+
+/** Shortcut the UI can offer next to the message */
+export type ContractErrorAction = "deposit";
+
+export interface DecodedContractError {
+  name: ContractErrorName;
+  /** What went wrong, in plain words */
+  message: string;
+  /** What the user can do about it */
+  fix: string;
+  action?: ContractErrorAction;
+}
+
+export interface ContractErrorContext {
+  /** Minimum deposit to vote, in wei, to quote in InsufficientDeposit */
+  minDeposit?: bigint;
+}
+
+type Description = Omit<DecodedContractError, "name"> | ((context: ContractErrorContext) => Omit<DecodedContractError, "name">);
+
+const ORACLE_RESPONSE_REJECTED = {
+  message: "The decryption oracle's response could not be verified.",
+  fix: "No action needed; the oracle will retry publishing the results.",
+};
+
+// Keyed by the ABI's error names, so a new contract error fails the type-check until described here
+const DESCRIPTIONS: Record<ContractErrorName, Description> = {
+  // SimpleTreasuryDAO
+  InsufficientDeposit: ({ minDeposit }) => ({
+    message: "Your deposit is below the minimum required to vote or create proposals.",
+    fix: minDeposit !== undefined
+      ? `Deposit at least ${formatEther(minDeposit)} ETH into the treasury.`
+      : "Deposit more ETH into the treasury.",
+    action: "deposit",
+  }),
+  AlreadyVoted: {
+    message: "This account has already voted on this proposal.",
+    fix: "Each account votes once; your ballot is already counted.",
+  },
+  ProposalNotFound: {
+    message: "This proposal does not exist on the contract.",
+    fix: "Refresh the page; the proposal list may be out of date.",
+  },
+  VotingEnded: {
+    message: "This is not allowed at this point of the voting period.",
+    fix: "Votes are accepted until the deadline, and a proposal can only be finalized after it.",
+  },
+  NotProposer: {
+    message: "Only the proposer or the DAO owner can finalize this proposal.",
+    fix: "Ask the proposer or the owner to finalize it.",
+  },
+  InvalidAmount: {
+    message: "The amount is zero or larger than your deposit.",
+    fix: "Enter a positive amount no larger than your deposit.",
+  },
+  InvalidRecipient: {
+    message: "The recipient is the zero address.",
+    fix: "Enter a valid recipient address.",
+  },
+  InvalidDeadline: {
+    message: "The voting period must be between 1 and 90 days.",
+    fix: "Choose a voting period of 1 to 90 days.",
+  },
+  NotFinalized: {
+    message: "Results are only available once the proposal is finalized.",
+    fix: "Finalize the proposal after its voting period ends.",
+  },
+  AlreadyFinalized: {
+    message: "This proposal has already been finalized.",
+    fix: "Refresh the page to see its results.",
+  },
+  UnknownDecryptionRequest: ORACLE_RESPONSE_REJECTED,
+  HandlesAlreadySavedForRequestID: ORACLE_RESPONSE_REJECTED,
+  NoHandleFoundForRequestID: ORACLE_RESPONSE_REJECTED,
+  InvalidKMSSignatures: ORACLE_RESPONSE_REJECTED,
+
+  // TreasuryDAO
+  NotOwner: {
+    message: "Only the treasury owner can do this.",
+    fix: "Switch to the owner account.",
+  },
+  NotMember: {
+    message: "Only DAO members can do this.",
+    fix: "Ask the treasury owner to add your address as a member.",
+  },
+  PastDeadline: {
+    message: "Voting on this proposal has closed.",
+    fix: "Votes are only accepted before the deadline.",
+  },
+  InvalidVotingPeriod: {
+    message: "The voting period must be between 1 hour and 30 days.",
+    fix: "Choose a voting period within that range.",
+  },
+  AlreadyExecuted: {
+    message: "This proposal has already been executed or cancelled.",
+    fix: "Refresh the page to see its current state.",
+  },
+  QuorumNotReached: {
+    message: "The proposal ended without enough yes votes.",
+    fix: "It can no longer be executed; create a new proposal if still needed.",
+  },
+  VotingOngoing: {
+    message: "Voting is still open and quorum has not been reached.",
+    fix: "Wait for more votes or for the deadline to pass.",
+  },
+};
+
+const interfaces = [new Interface(simpleTreasuryDaoAbi), new Interface(treasuryDaoAbi)];
+
+const isRevertData = (value: unknown): value is string =>
+  typeof value === "string" && /^0x[0-9a-fA-F]{8}/.test(value);
+
+/**
+ * Find the custom error name in an ethers or viem error, looking through the
+ * wrappers wallets and libraries add around the revert.
+ */
+const findErrorName = (error: unknown, depth = 0): string | null => {
+  if (!error || typeof error !== "object" || depth > 6) return null;
+  const e = error as Record<string, unknown>;
+
+  // ethers decodes errors present in the contract's ABI
+  const revert = e.revert as { name?: string } | undefined;
+  if (revert?.name) return revert.name;
+
+  // viem's ContractFunctionRevertedError
+  const data = e.data as { errorName?: string } | string | undefined;
+  if (data && typeof data === "object" && data.errorName) return data.errorName;
+
+  for (const candidate of [e.data, e.raw]) {
+    if (!isRevertData(candidate)) continue;
+    for (const iface of interfaces) {
+      try {
+        const parsed = iface.parseError(candidate);
+        if (parsed) return parsed.name;
+      } catch {
+        // Not one of this contract's errors
+      }
+    }
+  }
+
+  for (const key of ["error", "info", "cause", "data"]) {
+    const name = findErrorName(e[key], depth + 1);
+    if (name) return name;
+  }
+  return null;
+};
+
+/**
+ * Explain a custom error reverted by SimpleTreasuryDAO or TreasuryDAO,
+ * or return null when the error is not one of them
+ */
+export const decodeContractError = (
+  error: unknown,
+  context: ContractErrorContext = {}
+): DecodedContractError | null => {
+  const name = findErrorName(error);
+  if (!name || !(name in DESCRIPTIONS)) return null;
+
+  const description = DESCRIPTIONS[name as ContractErrorName];
+  return {
+    name: name as ContractErrorName,
+    ...(typeof description === "function" ? description(context) : description),
+  };
+};
+
+/**
+ * Whether the error is the chain rejecting the call (as opposed to the RPC or
+ * wallet failing), i.e. sending the transaction would revert too
+ */
+export const isRevertError = (error: unknown): boolean =>
+  decodeContractError(error) !== null || (error as { code?: string } | null)?.code === "CALL_EXCEPTION";
@@ -0,0 +1,423 @@
+import {
+  BrowserProvider,
+  Contract,
+  JsonRpcSigner,
+  type ContractEventName,
+  type ContractRunner,
+  type ContractTransactionReceipt,
+  type ContractTransactionResponse,
+  type EventLog,
+  type Eip1193Provider,
+  type Result,
+} from "ethers";
+import type { EIP1193RequestFn } from "viem";
+import { TREASURY_DAO_ABI, TREASURY_DAO_ADDRESS } from "@/config/contracts";
+import { isRevertError } from "./contract-errors";
+import { multicall, type ContractCall } from "./multicall";
+
+// Proposals returned by one getProposals(offset, limit) call
+export const PROPOSAL_PAGE_SIZE = 50;
+
+// Most proposals read by one eth_call, whether as pages or (legacy) one by one;
+// full structs hit RPC return-size and gas limits long before MULTICALL_CHUNK_SIZE calls
+const PROPOSALS_PER_CALL = 5 * PROPOSAL_PAGE_SIZE;
+
+// Longest voting period createProposal accepts
+export const MAX_VOTING_PERIOD_DAYS = 90;
+
+// Blocks per eth_getLogs request; public RPCs reject much larger ranges
+const LOG_CHUNK_BLOCKS = 50_000;
+
+// Slightly under Sepolia's 12s slot time, so block estimates err on the early side
+const MIN_BLOCK_TIME_SECONDS = 11;
+
+export interface Proposal {
+  id: number;
+  title: string;
+  description: string;
+  proposer: string;
+  /** Requested amount in wei */
+  amount: bigint;
+  recipient: string;
+  /** Unix timestamp (seconds) after which voting is closed */
+  deadline: number;
+  finalized: boolean;
+  /** Whether the account passed to `listProposals` voted; absent otherwise */
+  hasVoted?: boolean;
+}
+
+export interface Tally {
+  yes: number;
+  no: number;
+  passed: boolean;
+}
+
+/** Publication state of a proposal's decrypted result */
+export interface TallyStatus {
+  decryptionPending: boolean;
+  tally: Tally | null;
+}
+
+export interface EncryptedTally {
+  yes: `0x${string}`;
+  no: `0x${string}`;
+}
+
+/** A VoteCast event: who voted and when, never how */
+export interface VoteRecord {
+  voter: string;
+  blockNumber: number;
+  /** Unix timestamp (seconds) of the block */
+  timestamp: number;
+  txHash: string;
+}
+
+/** A SimpleTreasuryDAO event, with the fields the UI shows pulled out of its arguments */
+export interface DaoEvent {
+  name: string;
+  proposalId?: number;
+  /** Depositor, withdrawer or voter */
+  account?: string;
+  /** Wei moved by Deposited/Withdrawn, or requested by ProposalCreated */
+  amount?: bigint;
+  blockNumber: number;
+  /** Unix timestamp (seconds) of the block */
+  timestamp: number;
+  txHash: string;
+}
+
+export interface CreateProposalParams {
+  title: string;
+  description: string;
+  /** Requested amount in wei */
+  amount: bigint;
+  recipient: string;
+  votingPeriodDays: number;
+}
+
+/** A DAO transaction, described so it can be simulated before it is sent */
+export type DaoTransaction =
+  | { kind: "deposit"; amount: bigint }
+  | { kind: "withdraw"; amount: bigint }
+  | { kind: "createProposal"; params: CreateProposalParams }
+  | { kind: "vote"; proposalId: number; encryptedSupport: `0x${string}`; inputProof: `0x${string}` }
+  | { kind: "finalize"; proposalId: number };
+
+export interface TransactionPreview {
+  /** Estimated gas units */
+  gas: bigint;
+  /** Max fee per gas (gas price on legacy chains), in wei */
+  gasPrice: bigint;
+  /** Upper bound of the fee, gas × gasPrice, in wei */
+  cost: bigint;
+}
+
+export interface DaoClient {
+  address: `0x${string}`;
+  /** Whether this is a deployment from before ebool ballots and published tallies */
+  isLegacy: () => Promise<boolean>;
+  getProposal: (id: number) => Promise<Proposal>;
+  listProposals: (account?: string) => Promise<Proposal[]>;
+  getProposalCount: () => Promise<number>;
+  getTallyStatus: (id: number) => Promise<TallyStatus>;
+  getTallyStatuses: (ids: number[]) => Promise<Map<number, TallyStatus>>;
+  getEncryptedTally: (id: number) => Promise<EncryptedTally>;
+  getDeposit: (account: string) => Promise<bigint>;
+  getMinDeposit: () => Promise<bigint>;
+  getOwner: () => Promise<string>;
+  hasVoted: (id: number, account: string) => Promise<boolean>;
+  /** ETH held by the contract, in wei */
+  getBalance: () => Promise<bigint>;
+  /** VoteCast events of a proposal from `fromBlock` on, oldest first */
+  getVotes: (id: number, fromBlock: number) => Promise<VoteRecord[]>;
+  /** Every event from `fromBlock` on, oldest first */
+  getEvents: (fromBlock: number) => Promise<DaoEvent[]>;
+  /** An account's Deposited and Withdrawn events from `fromBlock` on, oldest first */
+  getDepositHistory: (account: string, fromBlock: number) => Promise<DaoEvent[]>;
+  /** A block number at or before `timestamp`, estimated from the block time */
+  estimateBlockAt: (timestamp: number) => Promise<number>;
+  deposit: (amount: bigint) => Promise<ContractTransactionReceipt>;
+  withdraw: (amount: bigint) => Promise<ContractTransactionReceipt>;
+  createProposal: (params: CreateProposalParams) => Promise<ContractTransactionReceipt>;
+  vote: (id: number, encryptedSupport: `0x${string}`, inputProof: `0x${string}`) => Promise<ContractTransactionReceipt>;
+  finalize: (id: number) => Promise<ContractTransactionReceipt>;
+  /** Simulate a transaction from the signer; rejects with the revert it would hit */
+  preview: (transaction: DaoTransaction) => Promise<TransactionPreview>;
+}
+
+/**
+ * Whether `account` may finalize the proposal now: the contract accepts it from
+ * the owner or the proposer once the deadline has passed
+ */
+export const canFinalize = (
+  proposal: Pick<Proposal, "proposer" | "deadline" | "finalized">,
+  account: string | undefined,
+  owner: string | undefined,
+  now = Math.floor(Date.now() / 1000)
+): boolean => {
+  if (!account || proposal.finalized || proposal.deadline >= now) return false;
+  const user = account.toLowerCase();
+  return user === owner?.toLowerCase() || user === proposal.proposer.toLowerCase();
+};
+
+/** The parts of a wagmi/viem client needed to build an ethers provider */
+interface ClientLike {
+  chain: { id: number; name: string };
+  transport: { request: EIP1193RequestFn };
+}
+
+/**
+ * Wrap a wagmi/viem public client in a read-only ethers provider
+ */
+export const clientToProvider = ({ chain, transport }: ClientLike): BrowserProvider =>
+  // viem's request function is stricter than, but call-compatible with, ethers' EIP-1193 type
+  new BrowserProvider(transport as Eip1193Provider, {
+    chainId: chain.id,
+    name: chain.name,
+  });
+
+/**
+ * Wrap a wagmi/viem wallet client in an ethers signer
+ */
+export const walletClientToSigner = (walletClient: ClientLike & { account: { address: string } }): JsonRpcSigner =>
+  new JsonRpcSigner(clientToProvider(walletClient), walletClient.account.address);
+
+const waitForReceipt = async (tx: ContractTransactionResponse): Promise<ContractTransactionReceipt> => {
+  const receipt = await tx.wait();
+  if (!receipt) {
+    throw new Error(`Transaction ${tx.hash} was dropped`);
+  }
+  return receipt;
+};
+
+const toContractCall = (transaction: DaoTransaction): { method: string; args: unknown[] } => {
+  switch (transaction.kind) {
+    case "deposit":
+      return { method: "deposit", args: [{ value: transaction.amount }] };
+    case "withdraw":
+      return { method: "withdraw", args: [transaction.amount] };
+    case "createProposal": {
+      const { title, description, amount, recipient, votingPeriodDays } = transaction.params;
+      return { method: "createProposal", args: [title, description, amount, recipient, votingPeriodDays] };
+    }
+    case "vote":
+      return {
+        method: "vote",
+        args: [transaction.proposalId, transaction.encryptedSupport, transaction.inputProof],
+      };
+    case "finalize":
+      return { method: "finalizeProposal", args: [transaction.proposalId] };
+  }
+};
+
+const toDaoEvent = ({ event, timestamp }: { event: EventLog; timestamp: number }): DaoEvent => {
+  const args = event.args.toObject();
+  const proposalId = args.id ?? args.proposalId;
+  return {
+    name: event.eventName,
+    proposalId: proposalId === undefined ? undefined : Number(proposalId),
+    account: args.user ?? args.voter,
+    amount: args.amount,
+    blockNumber: event.blockNumber,
+    timestamp,
+    txHash: event.transactionHash,
+  };
+};
+
+const toProposal = (proposal: Result): Proposal => ({
+  id: Number(proposal.id),
+  title: proposal.title,
+  description: proposal.description,
+  proposer: proposal.proposer,
+  amount: proposal.amount,
+  recipient: proposal.recipient,
+  deadline: Number(proposal.deadline),
+  finalized: proposal.finalized,
+});
+
+// Deployments from before published tallies have no decryption to wait for
+const UNPUBLISHED: TallyStatus = { decryptionPending: false, tally: null };
+
+const toTallyStatus = (decryptionPending: boolean, tally: Result): TallyStatus => ({
+  decryptionPending,
+  tally: tally.published
+    ? { yes: Number(tally.yesVotes), no: Number(tally.noVotes), passed: tally.passed }
+    : null,
+});
+
+/**
+ * Typed access to SimpleTreasuryDAO. Reads work with any runner;
+ * transactions need a signer (see `walletClientToSigner`).
+ */
+export const createDaoClient = (
+  runner: ContractRunner,
+  address: `0x${string}` = TREASURY_DAO_ADDRESS
+): DaoClient => {
+  const contract = new Contract(address, TREASURY_DAO_ABI, runner);
+
+  const call = (method: string, ...args: unknown[]): ContractCall => ({ contract, method, args });
+
+  const getProposal = async (id: number): Promise<Proposal> => toProposal(await contract.getProposal(id));
+
+  const getProposalCount = async () => Number(await contract.getProposalCount());
+
+  // Whether the contract predates getProposals and the published tallies (it
+  // reverts on both), so proposals are read one by one and tallies never appear.
+  // Only a definite revert is remembered; network errors are retried.
+  let legacy: Promise<boolean> | undefined;
+  const isLegacy = () => {
+    legacy ??= contract.getProposals.staticCall(0, 0).then(
+      () => false,
+      (error) => {
+        if (isRevertError(error)) return true;
+        legacy = undefined;
+        throw error;
+      }
+    );
+    return legacy;
+  };
+
+  const send = async (transaction: DaoTransaction) => {
+    const { method, args } = toContractCall(transaction);
+    return waitForReceipt(await contract.getFunction(method).send(...args));
+  };
+
+  // Logs in LOG_CHUNK_BLOCKS-sized requests up to the latest block, with their block timestamps
+  const queryEvents = async (filter: ContractEventName, fromBlock: number) => {
+    const provider = runner.provider;
+    if (!provider) {
+      throw new Error("Reading events requires a runner with a provider");
+    }
+    const latest = await provider.getBlockNumber();
+
+    const events: EventLog[] = [];
+    for (let start = fromBlock; start <= latest; start += LOG_CHUNK_BLOCKS) {
+      const chunk = await contract.queryFilter(filter, start, Math.min(start + LOG_CHUNK_BLOCKS - 1, latest));
+      events.push(...chunk.filter((event): event is EventLog => "args" in event));
+    }
+
+    const blockNumbers = [...new Set(events.map((event) => event.blockNumber))];
+    const blocks = await Promise.all(blockNumbers.map((number) => provider.getBlock(number)));
+    const timestamps = new Map(blocks.map((block, i) => [blockNumbers[i], block?.timestamp ?? 0]));
+
+    return events.map((event) => ({ event, timestamp: timestamps.get(event.blockNumber) ?? 0 }));
+  };
+
+  return {
+    address,
+    isLegacy,
+    getProposal,
+    getProposalCount,
+    // Pages of proposals (single proposals on legacy deployments) and the
+    // account's hasVoted flags, batched through multicall
+    listProposals: async (account) => {
+      const [count, legacy] = await Promise.all([getProposalCount(), isLegacy()]);
+      const pageCalls: ContractCall[] = [];
+      if (legacy) {
+        for (let id = 0; id < count; id++) {
+          pageCalls.push(call('getProposal', id));
+        }
+      } else {
+        for (let offset = 0; offset < count; offset += PROPOSAL_PAGE_SIZE) {
+          pageCalls.push(call('getProposals', offset, PROPOSAL_PAGE_SIZE));
+        }
+      }
+      const voteCalls = account
+        ? Array.from({ length: count }, (_, id) => call('hasVoted', id, account))
+        : [];
+
+      const [pages, voted] = await Promise.all([
+        multicall(runner, pageCalls, legacy ? PROPOSALS_PER_CALL : PROPOSALS_PER_CALL / PROPOSAL_PAGE_SIZE),
+        multicall(runner, voteCalls),
+      ]);
+      const proposals = legacy
+        ? pages.map(toProposal)
+        : pages.flatMap(([page]: Result) => page.map(toProposal));
+
+      if (account) {
+        proposals.forEach((proposal, i) => {
+          proposal.hasVoted = voted[i][0];
+        });
+      }
+      return proposals;
+    },
+    getTallyStatus: async (id) => {
+      if (await isLegacy()) return UNPUBLISHED;
+      const [[decryptionPending], tally] = await multicall(runner, [
+        call('decryptionPending', id),
+        call('tallies', id),
+      ]);
+      return toTallyStatus(decryptionPending, tally);
+    },
+    getTallyStatuses: async (ids) => {
+      if (await isLegacy()) return new Map(ids.map((id) => [id, UNPUBLISHED]));
+      const results = await multicall(
+        runner,
+        ids.flatMap((id) => [call('decryptionPending', id), call('tallies', id)])
+      );
+      return new Map(ids.map((id, i) => [id, toTallyStatus(results[2 * i][0], results[2 * i + 1])]));
+    },
+    getEncryptedTally: async (id) => {
+      const [yes, no] = await Promise.all([contract.getYesVotes(id), contract.getNoVotes(id)]);
+      return { yes, no };
+    },
+    getDeposit: (account) => contract.deposits(account),
+    getMinDeposit: () => contract.minDepositToVote(),
+    getOwner: () => contract.owner(),
+    hasVoted: (id, account) => contract.hasVoted(id, account),
+    getBalance: async () => {
+      const provider = runner.provider;
+      if (!provider) {
+        throw new Error("getBalance requires a runner with a provider");
+      }
+      return provider.getBalance(address);
+    },
+    getVotes: async (id, fromBlock) => {
+      const events = await queryEvents(contract.filters.VoteCast(id), fromBlock);
+      return events.map(({ event, timestamp }) => ({
+        voter: event.args.voter,
+        blockNumber: event.blockNumber,
+        timestamp,
+        txHash: event.transactionHash,
+      }));
+    },
+    getEvents: async (fromBlock) => (await queryEvents("*", fromBlock)).map(toDaoEvent),
+    getDepositHistory: async (account, fromBlock) => {
+      const [deposits, withdrawals] = await Promise.all([
+        queryEvents(contract.filters.Deposited(account), fromBlock),
+        queryEvents(contract.filters.Withdrawn(account), fromBlock),
+      ]);
+      return [...deposits, ...withdrawals]
+        .sort((a, b) => a.event.blockNumber - b.event.blockNumber || a.event.index - b.event.index)
+        .map(toDaoEvent);
+    },
+    estimateBlockAt: async (timestamp) => {
+      const latest = await runner.provider?.getBlock("latest");
+      if (!latest) {
+        throw new Error("estimateBlockAt requires a runner with a provider");
+      }
+      const elapsed = Math.max(0, latest.timestamp - timestamp);
+      return Math.max(0, latest.number - Math.ceil(elapsed / MIN_BLOCK_TIME_SECONDS));
+    },
+    deposit: (amount) => send({ kind: "deposit", amount }),
+    withdraw: (amount) => send({ kind: "withdraw", amount }),
+    createProposal: (params) => send({ kind: "createProposal", params }),
+    vote: (proposalId, encryptedSupport, inputProof) =>
+      send({ kind: "vote", proposalId, encryptedSupport, inputProof }),
+    finalize: (proposalId) => send({ kind: "finalize", proposalId }),
+    // eth_call first: it surfaces the revert reason more reliably than eth_estimateGas
+    preview: async (transaction) => {
+      const provider = runner.provider;
+      if (!provider) {
+        throw new Error("preview requires a runner with a provider");
+      }
+      const { method, args } = toContractCall(transaction);
+      const fn = contract.getFunction(method);
+      await fn.staticCall(...args);
+
+      const [gas, fees] = await Promise.all([fn.estimateGas(...args), provider.getFeeData()]);
+      const gasPrice = fees.maxFeePerGas ?? fees.gasPrice ?? 0n;
+      return { gas, gasPrice, cost: gas * gasPrice };
+    },
+  };
+};
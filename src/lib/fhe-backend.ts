@@ -0,0 +1,105 @@
+/**
+ * Common surface shared by every FHE backend.
+ * Mirrors the subset of the relayer SDK instance the app relies on, so the
+ * relayer and the local mock can be swapped without touching callers.
+ */
+
+export type FheBackendKind = 'relayer' | 'mock';
+
+/** Minimal EIP-1193 surface, e.g. what a wagmi connector's `getProvider()` returns */
+export interface Eip1193Provider {
+  request: (args: { method: string; params?: unknown[] }) => Promise<unknown>;
+}
+
+export type EncryptedValueType = 'bool' | 'uint8' | 'uint16' | 'uint32' | 'uint64' | 'address';
+
+/**
+ * A cleartext queued for encryption. Values are kept as strings
+ * (decimal for numbers, "true"/"false", hex for addresses) so they
+ * can be posted to the encryption worker unchanged.
+ */
+export interface ClearValue {
+  type: EncryptedValueType;
+  value: string;
+}
+
+export interface FheEncryptedInput {
+  addBool: (value: boolean | number | bigint) => FheEncryptedInput;
+  add8: (value: number | bigint) => FheEncryptedInput;
+  add16: (value: number | bigint) => FheEncryptedInput;
+  add32: (value: number | bigint) => FheEncryptedInput;
+  add64: (value: number | bigint) => FheEncryptedInput;
+  addAddress: (value: string) => FheEncryptedInput;
+  encrypt: () => Promise<{
+    handles: Uint8Array[];
+    inputProof: Uint8Array;
+  }>;
+}
+
+export interface FheKeypair {
+  publicKey: string;
+  privateKey: string;
+}
+
+export interface FheEIP712 {
+  domain: {
+    chainId: number;
+    name: string;
+    verifyingContract: string;
+    version: string;
+  };
+  message: Record<string, unknown>;
+  primaryType: string;
+  types: Record<string, { name: string; type: string }[]>;
+}
+
+export interface HandleContractPair {
+  handle: Uint8Array | string;
+  contractAddress: string;
+}
+
+export type DecryptedResults = Record<string, bigint | boolean | string>;
+
+export interface FheBackend {
+  kind: FheBackendKind;
+  /** Wallet provider the backend reads the chain through, if it was given one */
+  network?: Eip1193Provider;
+  createEncryptedInput: (contractAddress: string, userAddress: string) => FheEncryptedInput;
+  generateKeypair: () => FheKeypair;
+  createEIP712: (
+    publicKey: string,
+    contractAddresses: string[],
+    startTimestamp: string | number,
+    durationDays: string | number
+  ) => FheEIP712;
+  userDecrypt: (
+    handles: HandleContractPair[],
+    privateKey: string,
+    publicKey: string,
+    signature: string,
+    contractAddresses: string[],
+    userAddress: string,
+    startTimestamp: string | number,
+    durationDays: string | number
+  ) => Promise<DecryptedResults>;
+}
+
+/**
+ * Append a serialized cleartext to a backend input
+ */
+export const addClearValue = (input: FheEncryptedInput, { type, value }: ClearValue) => {
+  switch (type) {
+    case 'bool':
+      return input.addBool(value === 'true');
+    case 'uint8':
+      return input.add8(BigInt(value));
+    case 'uint16':
+      return input.add16(BigInt(value));
+    case 'uint32':
+      return input.add32(BigInt(value));
+    case 'uint64':
+      return input.add64(BigInt(value));
+    case 'address':
+      return input.addAddress(value);
+  }
+};
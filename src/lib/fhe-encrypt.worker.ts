@@ -0,0 +1,101 @@
+import { hexlify } from "ethers";
+import { addClearValue, type ClearValue, type Eip1193Provider, type FheBackend } from "./fhe-backend";
+import { createRelayerBackend } from "./fhe-relayer";
+import { toFheError, type FheErrorCode } from "./fhe-errors";
+
+/** `input.encrypt()` encrypts and proves in one call, so they share a stage */
+export type EncryptionStage = 'loading-keys' | 'encrypting';
+
+export interface EncryptRequest {
+  type: 'encrypt';
+  id: number;
+  contractAddress: string;
+  userAddress: string;
+  values: ClearValue[];
+}
+
+export type EncryptWorkerMessage =
+  | { id: number; type: 'progress'; stage: EncryptionStage }
+  | { id: number; type: 'result'; handles: `0x${string}`[]; inputProof: `0x${string}` }
+  | { id: number; type: 'error'; code: FheErrorCode; message: string };
+
+/** JSON-RPC call the worker asks the main thread to forward to the wallet provider */
+export interface WorkerRpcCall {
+  type: 'rpc';
+  rpcId: number;
+  method: string;
+  params?: unknown[];
+}
+
+export type WorkerRpcResponse =
+  | { type: 'rpc-result'; rpcId: number; result: unknown }
+  | { type: 'rpc-error'; rpcId: number; message: string };
+
+const ctx = self as unknown as Worker;
+
+let backendPromise: Promise<FheBackend> | null = null;
+let nextRpcId = 0;
+const rpcCalls = new Map<number, { resolve: (result: unknown) => void; reject: (error: Error) => void }>();
+
+const post = (message: EncryptWorkerMessage | WorkerRpcCall) => ctx.postMessage(message);
+
+// Wallet providers cannot be posted to a worker, so chain reads are relayed
+// to the provider of the main thread's FHE instance
+const walletProvider: Eip1193Provider = {
+  request: ({ method, params }) =>
+    new Promise((resolve, reject) => {
+      const rpcId = nextRpcId++;
+      rpcCalls.set(rpcId, { resolve, reject });
+      post({ type: 'rpc', rpcId, method, params });
+    }),
+};
+
+const settleRpc = (response: WorkerRpcResponse) => {
+  const call = rpcCalls.get(response.rpcId);
+  if (!call) return;
+  rpcCalls.delete(response.rpcId);
+  if (response.type === 'rpc-result') {
+    call.resolve(response.result);
+  } else {
+    call.reject(new Error(response.message));
+  }
+};
+
+/**
+ * Encrypt off the main thread. The SDK instance (and its downloaded public
+ * key) is created once and reused for every request this worker receives.
+ */
+ctx.onmessage = async (event: MessageEvent<EncryptRequest | WorkerRpcResponse>) => {
+  if (event.data.type !== 'encrypt') {
+    settleRpc(event.data);
+    return;
+  }
+  const { id, contractAddress, userAddress, values } = event.data;
+
+  try {
+    post({ id, type: 'progress', stage: 'loading-keys' });
+    if (!backendPromise) {
+      backendPromise = createRelayerBackend(walletProvider).catch((error) => {
+        backendPromise = null;
+        throw error;
+      });
+    }
+    const backend = await backendPromise;
+
+    post({ id, type: 'progress', stage: 'encrypting' });
+    const input = backend.createEncryptedInput(contractAddress, userAddress);
+    values.forEach((value) => addClearValue(input, value));
+    const { handles, inputProof } = await input.encrypt();
+
+    post({
+      id,
+      type: 'result',
+      handles: handles.map((handle) => hexlify(handle) as `0x${string}`),
+      inputProof: hexlify(inputProof) as `0x${string}`,
+    });
+  } catch (error) {
+    // Error instances don't survive postMessage with their class, so send the code
+    const { code, message } = toFheError(error);
+    post({ id, type: 'error', code, message });
+  }
+};
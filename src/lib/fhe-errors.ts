@@ -0,0 +1,152 @@
+/**
+ * Error taxonomy for the FHE layer. Each class carries a stable `code` (so it
+ * survives the trip from the encryption worker) and a message fit for a toast.
+ */
+
+export type FheErrorCode =
+  | 'SDK_LOAD'
+  | 'PROVIDER_MISSING'
+  | 'RELAYER_UNREACHABLE'
+  | 'PROOF_REJECTED'
+  | 'WRONG_CHAIN'
+  | 'UNKNOWN';
+
+export class FheError extends Error {
+  readonly code: FheErrorCode = 'UNKNOWN';
+  readonly userMessage: string = 'Encryption failed. Please try again.';
+  readonly cause?: unknown;
+
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message);
+    this.name = 'FheError';
+    this.cause = options?.cause;
+  }
+}
+
+export class FheSdkLoadError extends FheError {
+  readonly code = 'SDK_LOAD';
+  readonly userMessage = 'The encryption library failed to load. Check your connection and reload the page.';
+  name = 'FheSdkLoadError';
+}
+
+export class FheProviderMissingError extends FheError {
+  readonly code = 'PROVIDER_MISSING';
+  readonly userMessage = 'No wallet found. Please connect your wallet first.';
+  name = 'FheProviderMissingError';
+}
+
+export class FheRelayerUnreachableError extends FheError {
+  readonly code = 'RELAYER_UNREACHABLE';
+  readonly userMessage = 'The Zama relayer is not responding. Please try again in a moment.';
+  name = 'FheRelayerUnreachableError';
+}
+
+export class FheProofRejectedError extends FheError {
+  readonly code = 'PROOF_REJECTED';
+  readonly userMessage = 'The relayer rejected the encrypted input. Please try again.';
+  name = 'FheProofRejectedError';
+}
+
+export class FheWrongChainError extends FheError {
+  readonly code = 'WRONG_CHAIN';
+  declare readonly userMessage: string;
+  name = 'FheWrongChainError';
+
+  constructor(
+    readonly expectedChainId: number,
+    readonly actualChainId: number
+  ) {
+    super(`Wrong chain: expected ${expectedChainId}, got ${actualChainId}`);
+    this.userMessage = `Please switch your wallet to chain ${expectedChainId} (currently on ${actualChainId}).`;
+  }
+}
+
+const ERROR_CLASSES: Record<Exclude<FheErrorCode, 'WRONG_CHAIN'>, typeof FheError> = {
+  SDK_LOAD: FheSdkLoadError,
+  PROVIDER_MISSING: FheProviderMissingError,
+  RELAYER_UNREACHABLE: FheRelayerUnreachableError,
+  PROOF_REJECTED: FheProofRejectedError,
+  UNKNOWN: FheError,
+};
+
+/**
+ * Rebuild an error serialized as `{ code, message }` (e.g. posted by the worker)
+ */
+export const fheErrorFromCode = (code: FheErrorCode, message: string): FheError => {
+  if (code === 'WRONG_CHAIN') {
+    const [expected, actual] = (message.match(/\d+/g) ?? []).map(Number);
+    return new FheWrongChainError(expected, actual);
+  }
+  return new ERROR_CLASSES[code](message);
+};
+
+const getCause = (error: unknown): { code?: string; status?: number; operation?: string } =>
+  (error as { cause?: { code?: string; status?: number; operation?: string } })?.cause ?? {};
+
+/**
+ * Classify a raw relayer SDK error
+ */
+export const toFheError = (error: unknown): FheError => {
+  if (error instanceof FheError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const { code, status, operation } = getCause(error);
+
+  // Network failure, rate limiting or server-side trouble: worth retrying
+  if (
+    code === 'RELAYER_UNKNOWN_ERROR' ||
+    (code === 'RELAYER_FETCH_ERROR' && (status === 429 || (status ?? 0) >= 500)) ||
+    (error instanceof TypeError && /fetch|network/i.test(message)) ||
+    /Impossible to fetch public key|HTTP error! status: 5/.test(message)
+  ) {
+    return new FheRelayerUnreachableError(message, { cause: error });
+  }
+
+  if (
+    operation === 'INPUT_PROOF' ||
+    /coprocessor signer|Incorrect Handle/.test(message)
+  ) {
+    return new FheProofRejectedError(message, { cause: error });
+  }
+
+  return new FheError(message, { cause: error });
+};
+
+export const isTransientFheError = (error: unknown) => error instanceof FheRelayerUnreachableError;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run `task`, retrying transient relayer failures with exponential backoff
+ */
+export const withRelayerRetry = async <T>(
+  task: () => Promise<T>,
+  { retries = 3, baseDelayMs = 500 }: { retries?: number; baseDelayMs?: number } = {}
+): Promise<T> => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (raw) {
+      const error = toFheError(raw);
+      if (!isTransientFheError(error) || attempt >= retries) throw error;
+
+      const delay = baseDelayMs * 2 ** attempt;
+      console.warn(`[FHE] Relayer unreachable, retrying in ${delay} ms (${attempt + 1}/${retries})`);
+      await sleep(delay);
+    }
+  }
+};
+
+/**
+ * Message to show the user for any error thrown while voting, revealing or transacting
+ */
+export const getErrorMessage = (error: unknown): string => {
+  if (error instanceof FheError) return error.userMessage;
+
+  const e = error as { code?: string | number; shortMessage?: string; message?: string };
+  if (e?.code === 'ACTION_REJECTED' || e?.code === 4001) {
+    return 'Request rejected in your wallet.';
+  }
+
+  return e?.shortMessage || e?.message || 'Please try again';
+};
@@ -0,0 +1,121 @@
+import type { FheKeypair } from "./fhe-backend";
+
+/**
+ * A keypair plus the wallet's EIP-712 signature authorizing it to decrypt
+ * handles of `contractAddresses` until `startTimestamp + durationDays`.
+ */
+export interface DecryptionAuthorization {
+  keypair: FheKeypair;
+  signature: string;
+  userAddress: string;
+  contractAddresses: string[];
+  startTimestamp: number;
+  durationDays: number;
+}
+
+const DB_NAME = 'treasury-dao-fhe';
+const STORE_NAME = 'decryption-keys';
+
+// Stop reusing an authorization a little before it actually expires
+const EXPIRY_MARGIN_SECONDS = 60 * 60;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB not available'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+
+  return dbPromise;
+};
+
+const run = async <T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDb();
+  return new Promise((resolve, reject) => {
+    const request = action(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * Cache key: one authorization per backend, account and (unordered) contract set
+ */
+export const authorizationKey = (backend: string, userAddress: string, contractAddresses: string[]) =>
+  [
+    backend,
+    userAddress.toLowerCase(),
+    ...contractAddresses.map((address) => address.toLowerCase()).sort(),
+  ].join(':');
+
+export const isAuthorizationValid = (auth: DecryptionAuthorization, now = Math.floor(Date.now() / 1000)) =>
+  now < auth.startTimestamp + auth.durationDays * 86400 - EXPIRY_MARGIN_SECONDS;
+
+/**
+ * Load a still-valid authorization, or null. Storage failures are treated as a cache miss.
+ */
+export const loadAuthorization = async (key: string): Promise<DecryptionAuthorization | null> => {
+  try {
+    const auth = await run<DecryptionAuthorization | undefined>('readonly', (store) => store.get(key));
+    return auth && isAuthorizationValid(auth) ? auth : null;
+  } catch (error) {
+    console.warn('[FHE] Could not read decryption key cache:', error);
+    return null;
+  }
+};
+
+export const saveAuthorization = async (key: string, auth: DecryptionAuthorization): Promise<void> => {
+  try {
+    await run('readwrite', (store) => store.put(auth, key));
+  } catch (error) {
+    console.warn('[FHE] Could not persist decryption keys:', error);
+  }
+};
+
+/**
+ * Check whether any authorization is stored for `userAddress`
+ */
+export const hasAuthorizations = async (userAddress: string): Promise<boolean> => {
+  try {
+    const keys = await run('readonly', (store) => store.getAllKeys());
+    const account = userAddress.toLowerCase();
+    return keys.some((key) => String(key).split(':')[1] === account);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Delete every stored keypair and authorization for `userAddress` (all accounts if omitted)
+ */
+export const forgetAuthorizations = async (userAddress?: string): Promise<void> => {
+  if (!userAddress) {
+    await run('readwrite', (store) => store.clear());
+    return;
+  }
+
+  const keys = await run('readonly', (store) => store.getAllKeys());
+  const account = userAddress.toLowerCase();
+  await Promise.all(
+    keys
+      .filter((key) => String(key).split(':')[1] === account)
+      .map((key) => run('readwrite', (store) => store.delete(key)))
+  );
+};
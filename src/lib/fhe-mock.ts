@@ -0,0 +1,257 @@
+import {
+  JsonRpcProvider,
+  ZeroHash,
+  concat,
+  getAddress,
+  getBytes,
+  hexlify,
+  keccak256,
+  randomBytes,
+  solidityPacked,
+  toBeHex,
+  zeroPadValue,
+} from "ethers";
+import type { DecryptedResults, FheBackend, FheEncryptedInput } from "./fhe-backend";
+
+export interface MockBackendConfig {
+  chainId: number;
+  aclContractAddress: string;
+  verifyingContractAddressDecryption: string;
+  gatewayChainId: number;
+  rpcUrl?: string;
+}
+
+// FheType ids written into byte 30 of a handle
+const FHE_TYPE = {
+  ebool: 0,
+  euint8: 2,
+  euint16: 3,
+  euint32: 4,
+  euint64: 5,
+  eaddress: 7,
+};
+
+const FHE_TYPE_BYTE_LENGTH: Record<number, number> = {
+  [FHE_TYPE.ebool]: 1,
+  [FHE_TYPE.euint8]: 1,
+  [FHE_TYPE.euint16]: 2,
+  [FHE_TYPE.euint32]: 4,
+  [FHE_TYPE.euint64]: 8,
+  [FHE_TYPE.eaddress]: 20,
+};
+
+const HANDLE_VERSION = 0;
+const EXTRA_DATA = '0x00';
+
+interface MockValue {
+  fheType: number;
+  value: bigint;
+}
+
+/**
+ * Compute input handles exactly like the fhevm Hardhat mock:
+ * keccak256(blobHash ‖ index ‖ acl ‖ chainId)[0:21] ‖ index ‖ chainId[8] ‖ type ‖ version
+ */
+const computeInputHandles = (
+  ciphertext: string,
+  fheTypes: number[],
+  aclContractAddress: string,
+  chainId: number
+): Uint8Array[] => {
+  const blobHash = keccak256(ciphertext);
+  const chainId32 = zeroPadValue(toBeHex(chainId), 32);
+
+  return fheTypes.map((fheType, index) => {
+    const hash = getBytes(keccak256(concat([
+      blobHash,
+      new Uint8Array([index]),
+      getAddress(aclContractAddress),
+      chainId32,
+    ])));
+
+    const handle = new Uint8Array(32);
+    handle.set(hash.subarray(0, 21), 0);
+    handle[21] = index;
+    handle.set(getBytes(chainId32).subarray(24, 32), 22);
+    handle[30] = fheType;
+    handle[31] = HANDLE_VERSION;
+    return handle;
+  });
+};
+
+/**
+ * Serialize an input proof: numHandles ‖ numSigners ‖ handles ‖ signatures ‖ extraData
+ */
+const computeInputProof = (handles: string[], signatures: string[]): Uint8Array => {
+  return getBytes(concat([
+    new Uint8Array([handles.length, signatures.length]),
+    ...handles,
+    ...signatures,
+    EXTRA_DATA,
+  ]));
+};
+
+/**
+ * Create an in-memory backend for local development.
+ * Cleartexts of every encrypted input are kept in memory so they can be
+ * "decrypted" later; when `rpcUrl` points at a Hardhat node running the fhevm
+ * plugin, input proofs are signed by its mock coprocessor and unknown handles
+ * (results computed on-chain) are resolved from the node.
+ */
+export const createMockBackend = (config: MockBackendConfig): FheBackend => {
+  const clearTexts = new Map<string, bigint>();
+  const node = config.rpcUrl ? new JsonRpcProvider(config.rpcUrl) : null;
+  let nonce = 0;
+
+  const requestSignatures = async (
+    contractAddress: string,
+    userAddress: string,
+    ciphertext: string,
+    values: MockValue[],
+    random32List: string[]
+  ): Promise<string[]> => {
+    if (!node) return [];
+
+    const response = await node.send('fhevm_relayer_v1_input_proof', [{
+      contractAddress,
+      userAddress,
+      ciphertextWithInputVerification: ciphertext,
+      contractChainId: toBeHex(config.chainId),
+      extraData: EXTRA_DATA,
+      mockData: {
+        clearTextValuesBigIntHex: values.map((v) => toBeHex(v.value)),
+        metadatas: values.map(() => ({ blockNumber: 0, index: 0, transactionHash: ZeroHash })),
+        fheTypes: values.map((v) => v.fheType),
+        fhevmTypes: values.map((v) => v.fheType),
+        aclContractAddress: config.aclContractAddress,
+        random32List,
+      },
+    }]);
+
+    return response.signatures;
+  };
+
+  const createEncryptedInput = (contractAddress: string, userAddress: string): FheEncryptedInput => {
+    const values: MockValue[] = [];
+
+    const add = (fheType: number, value: bigint) => {
+      values.push({ fheType, value });
+      return input;
+    };
+
+    const input: FheEncryptedInput = {
+      addBool: (value) => add(FHE_TYPE.ebool, value ? 1n : 0n),
+      add8: (value) => add(FHE_TYPE.euint8, BigInt(value)),
+      add16: (value) => add(FHE_TYPE.euint16, BigInt(value)),
+      add32: (value) => add(FHE_TYPE.euint32, BigInt(value)),
+      add64: (value) => add(FHE_TYPE.euint64, BigInt(value)),
+      addAddress: (value) => add(FHE_TYPE.eaddress, BigInt(getAddress(value))),
+      encrypt: async () => {
+        const checksumContract = getAddress(contractAddress);
+        const checksumUser = getAddress(userAddress);
+        const inputNonce = nonce++;
+
+        // Deterministic "noise" so the same sequence of inputs yields the same handles
+        const random32List = values.map((_, i) =>
+          keccak256(solidityPacked(
+            ['address', 'address', 'uint256', 'uint8'],
+            [checksumContract, checksumUser, inputNonce, i]
+          ))
+        );
+
+        const ciphertext = keccak256(concat(values.map((v, i) => concat([
+          new Uint8Array([v.fheType]),
+          zeroPadValue(toBeHex(v.value), FHE_TYPE_BYTE_LENGTH[v.fheType]),
+          random32List[i],
+        ]))));
+
+        const handles = computeInputHandles(
+          ciphertext,
+          values.map((v) => v.fheType),
+          config.aclContractAddress,
+          config.chainId
+        );
+        const handlesHex = handles.map((h) => hexlify(h));
+
+        handlesHex.forEach((handle, i) => clearTexts.set(handle, values[i].value));
+
+        const signatures = await requestSignatures(
+          checksumContract,
+          checksumUser,
+          ciphertext,
+          values,
+          random32List
+        );
+
+        return {
+          handles,
+          inputProof: computeInputProof(handlesHex, signatures),
+        };
+      },
+    };
+
+    return input;
+  };
+
+  const userDecrypt: FheBackend['userDecrypt'] = async (handles) => {
+    const results: DecryptedResults = {};
+    const unknown: string[] = [];
+
+    for (const { handle } of handles) {
+      const key = typeof handle === 'string' ? handle.toLowerCase() : hexlify(handle);
+      const value = clearTexts.get(key);
+      if (value !== undefined) {
+        results[key] = value;
+      } else {
+        unknown.push(key);
+      }
+    }
+
+    if (unknown.length > 0) {
+      if (!node) {
+        throw new Error(`Mock FHE backend has no cleartext for ${unknown.length} handle(s)`);
+      }
+      const values: string[] = await node.send('fhevm_getClearText', [unknown]);
+      unknown.forEach((key, i) => {
+        results[key] = BigInt(values[i]);
+      });
+    }
+
+    return results;
+  };
+
+  return {
+    kind: 'mock',
+    createEncryptedInput,
+    generateKeypair: () => ({
+      publicKey: hexlify(randomBytes(32)),
+      privateKey: hexlify(randomBytes(32)),
+    }),
+    createEIP712: (publicKey, contractAddresses, startTimestamp, durationDays) => ({
+      domain: {
+        name: 'Decryption',
+        version: '1',
+        chainId: config.gatewayChainId,
+        verifyingContract: config.verifyingContractAddressDecryption,
+      },
+      primaryType: 'UserDecryptRequestVerification',
+      types: {
+        UserDecryptRequestVerification: [
+          { name: 'publicKey', type: 'bytes' },
+          { name: 'contractAddresses', type: 'address[]' },
+          { name: 'startTimestamp', type: 'uint256' },
+          { name: 'durationDays', type: 'uint256' },
+          { name: 'extraData', type: 'bytes' },
+        ],
+      },
+      message: {
+        publicKey,
+        contractAddresses,
+        startTimestamp: String(startTimestamp),
+        durationDays: String(durationDays),
+        extraData: EXTRA_DATA,
+      },
+    }),
+    userDecrypt,
+  };
+};
@@ -0,0 +1,105 @@
+import { FHE_SDK_FALLBACK } from "@/config/fhe";
+import type { Eip1193Provider, FheBackend } from "./fhe-backend";
+import { FheSdkLoadError, withRelayerRetry } from "./fhe-errors";
+
+type RelayerSdk = typeof import("@zama-fhe/relayer-sdk/web");
+
+declare global {
+  interface Window {
+    relayerSDK?: RelayerSdk;
+  }
+}
+
+let sdkPromise: Promise<RelayerSdk> | null = null;
+
+/**
+ * Load the UMD build from a self-hosted URL, pinned with Subresource Integrity
+ */
+const loadSdkFromUrl = (url: string, integrity: string): Promise<RelayerSdk> => {
+  if (!integrity) {
+    return Promise.reject(new Error('Self-hosted FHE SDK requires an integrity hash'));
+  }
+
+  return new Promise((resolve, reject) => {
+    console.log('📦 Loading SDK from', url);
+    const script = document.createElement('script');
+    script.src = url;
+    script.integrity = integrity;
+    script.crossOrigin = 'anonymous';
+    script.async = true;
+
+    script.onload = () => {
+      if (window.relayerSDK) {
+        resolve(window.relayerSDK);
+      } else {
+        reject(new Error('relayerSDK unavailable after load'));
+      }
+    };
+
+    script.onerror = () => {
+      reject(new Error('Failed to load FHE SDK (network error or integrity mismatch)'));
+    };
+
+    document.head.appendChild(script);
+  });
+};
+
+/**
+ * Lazily import the bundled Zama FHE SDK, falling back to a self-hosted copy
+ */
+const loadSdk = (): Promise<RelayerSdk> => {
+  if (typeof self === 'undefined') {
+    return Promise.reject(new FheSdkLoadError('FHE SDK requires browser environment'));
+  }
+
+  if (!sdkPromise) {
+    sdkPromise = import("@zama-fhe/relayer-sdk/web")
+      .catch((error) => {
+        // The script-tag fallback is only possible on the main thread
+        if (!FHE_SDK_FALLBACK.url || typeof document === 'undefined') throw error;
+        console.warn('⚠️ Bundled SDK failed to load, using self-hosted fallback:', error);
+        return loadSdkFromUrl(FHE_SDK_FALLBACK.url, FHE_SDK_FALLBACK.integrity);
+      })
+      .catch((error) => {
+        // Allow a later call to retry instead of caching the failure forever
+        sdkPromise = null;
+        throw new FheSdkLoadError(error instanceof Error ? error.message : 'Failed to load FHE SDK', { cause: error });
+      });
+  }
+
+  return sdkPromise;
+};
+
+/**
+ * Create a backend talking to the Zama relayer on Sepolia.
+ * Without an EIP-1193 provider the SDK's default RPC is used.
+ * Relayer calls are retried on transient failures and rethrown as `FheError`s.
+ */
+export const createRelayerBackend = async (ethereumProvider?: Eip1193Provider): Promise<FheBackend> => {
+  const sdk = await loadSdk();
+  await withRelayerRetry(() => sdk.initSDK());
+
+  const config = {
+    ...sdk.SepoliaConfig,
+    network: ethereumProvider ?? sdk.SepoliaConfig.network,
+  };
+
+  // Fetches the network public key from the relayer
+  const instance = await withRelayerRetry(() => sdk.createInstance(config));
+  console.log('✅ FHE instance initialized for Sepolia');
+
+  return {
+    kind: 'relayer',
+    network: ethereumProvider,
+    createEncryptedInput: (contractAddress, userAddress) => {
+      const input = instance.createEncryptedInput(contractAddress, userAddress);
+      const encrypt = input.encrypt.bind(input);
+      input.encrypt = () => withRelayerRetry(encrypt);
+      return input;
+    },
+    generateKeypair: () => instance.generateKeypair(),
+    createEIP712: (publicKey, contractAddresses, startTimestamp, durationDays) =>
+      instance.createEIP712(publicKey, contractAddresses, startTimestamp, durationDays),
+    userDecrypt: (...args) => withRelayerRetry(() => instance.userDecrypt(...args)),
+  };
+};
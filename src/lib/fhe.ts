@@ -1,165 +1,461 @@
-import { hexlify, getAddress } from "ethers";
-
-declare global {
-  interface Window {
-    relayerSDK?: {
-      initSDK: () => Promise<void>;
-      createInstance: (config: Record<string, unknown>) => Promise<any>;
-      SepoliaConfig: Record<string, unknown>;
-    };
-    ethereum?: any;
-    okxwallet?: any;
+import { hexlify, getAddress, type Signer } from "ethers";
+import { FHE_BACKEND, FHE_DECRYPTION_VALIDITY_DAYS, FHE_MOCK_CONFIG, FHE_RELAYER_CHAIN_ID } from "@/config/fhe";
+import {
+  addClearValue,
+  type ClearValue,
+  type Eip1193Provider,
+  type EncryptedValueType,
+  type FheBackend,
+} from "./fhe-backend";
+import { createRelayerBackend } from "./fhe-relayer";
+import { createMockBackend } from "./fhe-mock";
+import { FheSdkLoadError, FheWrongChainError, fheErrorFromCode } from "./fhe-errors";
+import {
+  authorizationKey,
+  forgetAuthorizations,
+  hasAuthorizations,
+  loadAuthorization,
+  saveAuthorization,
+  type DecryptionAuthorization,
+} from "./fhe-keystore";
+import type {
+  EncryptionStage,
+  EncryptRequest,
+  EncryptWorkerMessage,
+  WorkerRpcCall,
+  WorkerRpcResponse,
+} from "./fhe-encrypt.worker";
+
+export type { Eip1193Provider, EncryptionStage, EncryptedValueType, FheBackend };
+export { FheError, getErrorMessage } from "./fhe-errors";
+
+// One instance per backend, chain and wallet provider
+const fheInstances = new Map<string, Promise<FheBackend>>();
+const providerIds = new WeakMap<object, number>();
+let nextProviderId = 0;
+
+const instanceKey = (provider: Eip1193Provider, chainId: number) => {
+  let id = providerIds.get(provider);
+  if (id === undefined) {
+    id = nextProviderId++;
+    providerIds.set(provider, id);
   }
-}
+  return `${FHE_BACKEND}:${chainId}:${id}`;
+};
 
-let fheInstance: any = null;
-let sdkPromise: Promise<any> | null = null;
+const createFheInstance = async (provider: Eip1193Provider, chainId: number): Promise<FheBackend> => {
+  // The relayer does not serve local chains, so they always get the mock
+  if (FHE_BACKEND === 'mock' || chainId === FHE_MOCK_CONFIG.chainId) {
+    return createMockBackend(FHE_MOCK_CONFIG);
+  }
 
-const SDK_URL = 'https://cdn.zama.ai/relayer-sdk-js/0.2.0/relayer-sdk-js.umd.cjs';
+  if (chainId !== FHE_RELAYER_CHAIN_ID) {
+    throw new FheWrongChainError(FHE_RELAYER_CHAIN_ID, chainId);
+  }
+
+  return createRelayerBackend(provider);
+};
 
 /**
- * Dynamically load Zama FHE SDK from CDN
+ * Get the FHE instance for a wallet provider on `chainId`, creating it on first use.
+ * Failed initializations are not cached, so the next call retries.
  */
-const loadSdk = async (): Promise<any> => {
-  if (typeof window === 'undefined') {
-    throw new Error('FHE SDK requires browser environment');
-  }
+export const getFheInstance = (provider: Eip1193Provider, chainId: number): Promise<FheBackend> => {
+  const key = instanceKey(provider, chainId);
+  let instance = fheInstances.get(key);
 
-  if (window.relayerSDK) {
-    console.log('✅ SDK already loaded');
-    return window.relayerSDK;
+  if (!instance) {
+    instance = createFheInstance(provider, chainId).catch((error) => {
+      fheInstances.delete(key);
+      throw error;
+    });
+    fheInstances.set(key, instance);
   }
 
-  if (!sdkPromise) {
-    sdkPromise = new Promise((resolve, reject) => {
-      const existing = document.querySelector(`script[src="${SDK_URL}"]`) as HTMLScriptElement | null;
-      if (existing) {
-        console.log('⏳ SDK script tag exists, waiting...');
-        const checkInterval = setInterval(() => {
-          if (window.relayerSDK) {
-            clearInterval(checkInterval);
-            resolve(window.relayerSDK);
-          }
-        }, 100);
-
-        setTimeout(() => {
-          clearInterval(checkInterval);
-          if (window.relayerSDK) {
-            resolve(window.relayerSDK);
-          } else {
-            reject(new Error('SDK script exists but window.relayerSDK not initialized'));
-          }
-        }, 5000);
+  return instance;
+};
+
+/**
+ * Forget the instance of `provider` on `chainId` (account or chain switched)
+ */
+export const releaseFheInstance = (provider: Eip1193Provider, chainId: number) => {
+  fheInstances.delete(instanceKey(provider, chainId));
+};
+
+export interface EncryptOptions {
+  onProgress?: (stage: EncryptionStage) => void;
+  signal?: AbortSignal;
+}
+
+interface EncryptedValues {
+  handles: `0x${string}`[];
+  inputProof: `0x${string}`;
+}
+
+let encryptWorker: Worker | null = null;
+// Set once the worker could not load the SDK; encryption then stays on the main thread
+let workerUnavailable = false;
+// Provider the worker's chain reads are forwarded to (that of the latest request's instance)
+let workerNetwork: Eip1193Provider | undefined;
+let nextRequestId = 0;
+const pendingRequests = new Map<number, (error: Error) => void>();
+
+const abortError = () => new DOMException('Encryption cancelled', 'AbortError');
+
+/**
+ * Tear down the worker and fail every request still waiting on it
+ */
+const resetEncryptWorker = (error: Error) => {
+  encryptWorker?.terminate();
+  encryptWorker = null;
+  pendingRequests.forEach((reject) => reject(error));
+  pendingRequests.clear();
+};
+
+const getEncryptWorker = (): Worker => {
+  if (!encryptWorker) {
+    encryptWorker = new Worker(new URL('./fhe-encrypt.worker.ts', import.meta.url), { type: 'module' });
+    const worker = encryptWorker;
+    worker.onerror = (event) => {
+      resetEncryptWorker(new Error(event.message || 'FHE worker crashed'));
+    };
+    worker.addEventListener('message', (event: MessageEvent<EncryptWorkerMessage | WorkerRpcCall>) => {
+      const call = event.data;
+      if (call.type !== 'rpc') return;
+
+      const respond = (response: WorkerRpcResponse) => worker.postMessage(response);
+      if (!workerNetwork) {
+        respond({ type: 'rpc-error', rpcId: call.rpcId, message: 'No wallet provider for the FHE worker' });
         return;
       }
-
-      console.log('📦 Loading SDK from CDN...');
-      const script = document.createElement('script');
-      script.src = SDK_URL;
-      script.async = true;
-
-      script.onload = () => {
-        console.log('📦 Script loaded, waiting for SDK initialization...');
-        setTimeout(() => {
-          if (window.relayerSDK) {
-            console.log('✅ SDK initialized');
-            resolve(window.relayerSDK);
-          } else {
-            console.error('❌ window.relayerSDK still undefined after load');
-            reject(new Error('relayerSDK unavailable after load'));
-          }
-        }, 500);
-      };
-
-      script.onerror = () => {
-        console.error('❌ Failed to load SDK script');
-        reject(new Error('Failed to load FHE SDK'));
-      };
-
-      document.body.appendChild(script);
+      workerNetwork.request({ method: call.method, params: call.params }).then(
+        (result) => respond({ type: 'rpc-result', rpcId: call.rpcId, result }),
+        (error) =>
+          respond({
+            type: 'rpc-error',
+            rpcId: call.rpcId,
+            message: error instanceof Error ? error.message : String(error),
+          })
+      );
     });
   }
-
-  return sdkPromise;
+  return encryptWorker;
 };
 
 /**
- * Initialize FHE instance with Sepolia network configuration
+ * Encrypt values in the dedicated worker (relayer backend)
  */
-export async function initializeFHE(provider?: any): Promise<any> {
-  if (fheInstance) {
-    return fheInstance;
-  }
+const encryptInWorker = (
+  network: Eip1193Provider | undefined,
+  contractAddress: string,
+  userAddress: string,
+  values: ClearValue[],
+  { onProgress, signal }: EncryptOptions
+): Promise<EncryptedValues> => {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
 
-  if (typeof window === 'undefined') {
-    throw new Error('FHE SDK requires browser environment');
-  }
+    const worker = getEncryptWorker();
+    const id = nextRequestId++;
+    workerNetwork = network;
 
-  const ethereumProvider = provider ||
-    window.ethereum ||
-    (window as any).okxwallet?.provider ||
-    (window as any).okxwallet ||
-    (window as any).coinbaseWalletExtension;
+    const cleanup = () => {
+      pendingRequests.delete(id);
+      worker.removeEventListener('message', onMessage);
+      signal?.removeEventListener('abort', onAbort);
+    };
 
-  if (!ethereumProvider) {
-    throw new Error('Ethereum provider not found. Please connect your wallet first.');
-  }
+    const onMessage = (event: MessageEvent<EncryptWorkerMessage | WorkerRpcCall>) => {
+      const message = event.data;
+      if (message.type === 'rpc' || message.id !== id) return;
+
+      if (message.type === 'progress') {
+        onProgress?.(message.stage);
+      } else if (message.type === 'result') {
+        cleanup();
+        resolve({ handles: message.handles, inputProof: message.inputProof });
+      } else {
+        cleanup();
+        reject(fheErrorFromCode(message.code, message.message));
+      }
+    };
+
+    // A running proof cannot be interrupted, so the worker itself is discarded
+    const onAbort = () => {
+      cleanup();
+      reject(abortError());
+      resetEncryptWorker(new Error('FHE worker restarted'));
+    };
+
+    pendingRequests.set(id, (error) => {
+      cleanup();
+      reject(error);
+    });
+    worker.addEventListener('message', onMessage);
+    signal?.addEventListener('abort', onAbort);
 
-  console.log('🔌 Using Ethereum provider:', {
-    isOKX: !!(window as any).okxwallet,
-    isMetaMask: !!(window.ethereum as any)?.isMetaMask,
+    const request: EncryptRequest = {
+      type: 'encrypt',
+      id,
+      contractAddress,
+      userAddress,
+      values,
+    };
+    worker.postMessage(request);
   });
+};
 
-  const sdk = await loadSdk();
-  if (!sdk) {
-    throw new Error('FHE SDK not available');
-  }
+/**
+ * Encrypt values on the main thread (mock backend, no Worker support, or the
+ * worker could not load the SDK)
+ */
+const encryptOnMainThread = async (
+  fhe: FheBackend,
+  contractAddress: string,
+  userAddress: string,
+  values: ClearValue[],
+  { onProgress, signal }: EncryptOptions
+): Promise<EncryptedValues> => {
+  const throwIfAborted = () => {
+    if (signal?.aborted) throw abortError();
+  };
 
-  await sdk.initSDK();
+  onProgress?.('encrypting');
+  const input = fhe.createEncryptedInput(contractAddress, userAddress);
+  values.forEach((value) => addClearValue(input, value));
+  const { handles, inputProof } = await input.encrypt();
+  throwIfAborted();
 
-  const config = {
-    ...sdk.SepoliaConfig,
-    network: ethereumProvider,
+  return {
+    handles: handles.map((handle) => hexlify(handle) as `0x${string}`),
+    inputProof: hexlify(inputProof) as `0x${string}`,
   };
+};
 
-  fheInstance = await sdk.createInstance(config);
-  console.log('✅ FHE instance initialized for Sepolia');
+/** A bytes32 input handle, tagged with the FHE type it was encrypted as */
+export type EncryptedHandle<T extends EncryptedValueType = EncryptedValueType> = `0x${string}` & {
+  readonly __fheType?: T;
+};
+
+type HandlesOf<Types extends EncryptedValueType[]> = {
+  [K in keyof Types]: EncryptedHandle<Types[K]>;
+};
 
-  return fheInstance;
+const UINT_BITS = { uint8: 8, uint16: 16, uint32: 32, uint64: 64 } as const;
+
+const toUint = (type: keyof typeof UINT_BITS, value: number | bigint): ClearValue => {
+  const big = BigInt(value);
+  if (big < 0n || big >= 1n << BigInt(UINT_BITS[type])) {
+    throw new RangeError(`${value} does not fit in ${type}`);
+  }
+  return { type, value: big.toString() };
+};
+
+/**
+ * Builder for an encrypted input bound to one contract and one user.
+ * Every value added ends up in the same input proof; handles come back
+ * in the order the values were added.
+ *
+ * @example
+ * const { handles: [amount], inputProof } = await createEncryptedInput(treasury, user)
+ *   .addUint64(parseEther('1'))
+ *   .encrypt();
+ * await contract.depositEncrypted(amount, inputProof);
+ */
+export interface EncryptedInputBuilder<Types extends EncryptedValueType[] = []> {
+  addBool: (value: boolean) => EncryptedInputBuilder<[...Types, 'bool']>;
+  addUint8: (value: number | bigint) => EncryptedInputBuilder<[...Types, 'uint8']>;
+  addUint16: (value: number | bigint) => EncryptedInputBuilder<[...Types, 'uint16']>;
+  addUint32: (value: number | bigint) => EncryptedInputBuilder<[...Types, 'uint32']>;
+  addUint64: (value: number | bigint) => EncryptedInputBuilder<[...Types, 'uint64']>;
+  addAddress: (value: string) => EncryptedInputBuilder<[...Types, 'address']>;
+  encrypt: (options?: EncryptOptions) => Promise<{
+    handles: HandlesOf<Types>;
+    inputProof: `0x${string}`;
+  }>;
 }
 
+const buildInput = <Types extends EncryptedValueType[]>(
+  fhe: FheBackend,
+  contractAddress: string,
+  userAddress: string,
+  values: ClearValue[]
+): EncryptedInputBuilder<Types> => {
+  const next = <T extends EncryptedValueType>(value: ClearValue) =>
+    buildInput<[...Types, T]>(fhe, contractAddress, userAddress, [...values, value]);
+
+  return {
+    addBool: (value) => next<'bool'>({ type: 'bool', value: String(value) }),
+    addUint8: (value) => next<'uint8'>(toUint('uint8', value)),
+    addUint16: (value) => next<'uint16'>(toUint('uint16', value)),
+    addUint32: (value) => next<'uint32'>(toUint('uint32', value)),
+    addUint64: (value) => next<'uint64'>(toUint('uint64', value)),
+    addAddress: (value) => next<'address'>({ type: 'address', value: getAddress(value) }),
+    encrypt: async (options = {}) => {
+      if (values.length === 0) {
+        throw new Error('Encrypted input is empty');
+      }
+
+      const checksumContract = getAddress(contractAddress);
+      const checksumUser = getAddress(userAddress);
+      // `fhe` is bound to the wallet's chain, so the worker can use its own relayer instance
+      const useWorker = fhe.kind === 'relayer' && typeof Worker !== 'undefined' && !workerUnavailable;
+      const onMainThread = () => encryptOnMainThread(fhe, checksumContract, checksumUser, values, options);
+
+      const { handles, inputProof } = useWorker
+        ? await encryptInWorker(fhe.network, checksumContract, checksumUser, values, options).catch((error) => {
+            // Only the main thread can fall back to the self-hosted SDK script
+            if (!(error instanceof FheSdkLoadError)) throw error;
+            workerUnavailable = true;
+            resetEncryptWorker(error);
+            return onMainThread();
+          })
+        : await onMainThread();
+
+      return { handles: handles as HandlesOf<Types>, inputProof };
+    },
+  };
+};
+
 /**
- * Encrypt a vote (0 = no, 1 = yes)
+ * Start an encrypted input for `contractAddress`, to be submitted by `userAddress`
  */
-export const encryptVote = async (
+export const createEncryptedInput = (fhe: FheBackend, contractAddress: string, userAddress: string) =>
+  buildInput<[]>(fhe, contractAddress, userAddress, []);
+
+/**
+ * Encrypt a ballot as an ebool (true = yes, false = no). A boolean has no
+ * third value, so the contract can count every ballot for exactly one side.
+ */
+export const encryptBallot = async (
+  fhe: FheBackend,
   contractAddress: string,
   userAddress: string,
-  voteValue: 0 | 1
+  support: boolean,
+  options: EncryptOptions = {}
 ): Promise<{
-  encryptedVote: `0x${string}`;
+  encryptedSupport: EncryptedHandle<'bool'>;
   proof: `0x${string}`;
 }> => {
-  console.log('[FHE] Encrypting vote:', voteValue === 1 ? 'YES' : 'NO');
+  const { handles: [encryptedSupport], inputProof } = await createEncryptedInput(fhe, contractAddress, userAddress)
+    .addBool(support)
+    .encrypt(options);
 
-  const fhe = await initializeFHE();
-  const checksumAddress = getAddress(contractAddress);
+  return {
+    encryptedSupport,
+    proof: inputProof,
+  };
+};
+
+/**
+ * Encrypt a ballot for a legacy deployment, which takes a euint64
+ * (1 = yes, 0 = no) through the same `vote` function instead of an ebool
+ */
+export const encryptLegacyBallot = async (
+  fhe: FheBackend,
+  contractAddress: string,
+  userAddress: string,
+  support: boolean,
+  options: EncryptOptions = {}
+): Promise<{
+  encryptedSupport: EncryptedHandle<'uint64'>;
+  proof: `0x${string}`;
+}> => {
+  const { handles: [encryptedSupport], inputProof } = await createEncryptedInput(fhe, contractAddress, userAddress)
+    .addUint64(support ? 1 : 0)
+    .encrypt(options);
 
-  console.log('[FHE] Creating encrypted input...');
-  const input = fhe.createEncryptedInput(checksumAddress, userAddress);
-  input.add64(BigInt(voteValue));
+  return {
+    encryptedSupport,
+    proof: inputProof,
+  };
+};
 
-  console.log('[FHE] Encrypting...');
-  const { handles, inputProof } = await input.encrypt();
+/**
+ * Get a decryption authorization for `contractAddresses`, reusing the one
+ * cached in IndexedDB while it is valid so the wallet is only asked to sign
+ * once per validity window.
+ */
+const getDecryptionAuthorization = async (
+  fhe: FheBackend,
+  contractAddresses: string[],
+  signer: Signer
+): Promise<DecryptionAuthorization> => {
+  const userAddress = await signer.getAddress();
+  const key = authorizationKey(fhe.kind, userAddress, contractAddresses);
+
+  const cached = await loadAuthorization(key);
+  if (cached) {
+    return cached;
+  }
 
-  console.log('[FHE] ✅ Encryption complete');
+  const keypair = fhe.generateKeypair();
+  const startTimestamp = Math.floor(Date.now() / 1000);
+  const durationDays = FHE_DECRYPTION_VALIDITY_DAYS;
 
-  // Convert handle to hex string (bytes32)
-  const handleHex = '0x' + Array.from(handles[0])
-    .map((b: number) => b.toString(16).padStart(2, '0'))
-    .join('');
+  const eip712 = fhe.createEIP712(keypair.publicKey, contractAddresses, startTimestamp, durationDays);
 
-  return {
-    encryptedVote: handleHex as `0x${string}`,
-    proof: hexlify(inputProof) as `0x${string}`,
+  const signature = await signer.signTypedData(
+    eip712.domain,
+    { UserDecryptRequestVerification: eip712.types.UserDecryptRequestVerification },
+    eip712.message
+  );
+
+  const auth: DecryptionAuthorization = {
+    keypair,
+    signature: signature.replace('0x', ''),
+    userAddress,
+    contractAddresses,
+    startTimestamp,
+    durationDays,
   };
+  await saveAuthorization(key, auth);
+  return auth;
 };
+
+/**
+ * Decrypt handles the signer has ACL access to (user decryption).
+ * The wallet signs an EIP-712 authorization for a locally generated keypair
+ * (cached across sessions), then the relayer re-encrypts the values for that key.
+ */
+export const userDecrypt = async (
+  fhe: FheBackend,
+  contractAddress: string,
+  handles: `0x${string}`[],
+  signer: Signer
+): Promise<Record<string, bigint>> => {
+  const checksumAddress = getAddress(contractAddress);
+  const contractAddresses = [checksumAddress];
+
+  const auth = await getDecryptionAuthorization(fhe, contractAddresses, signer);
+
+  const result = await fhe.userDecrypt(
+    handles.map((handle) => ({ handle, contractAddress: checksumAddress })),
+    auth.keypair.privateKey,
+    auth.keypair.publicKey,
+    auth.signature,
+    auth.contractAddresses,
+    auth.userAddress,
+    auth.startTimestamp,
+    auth.durationDays
+  );
+
+  const values: Record<string, bigint> = {};
+  for (const handle of handles) {
+    values[handle] = BigInt(result[handle]);
+  }
+  return values;
+};
+
+/**
+ * Drop the cached decryption keys and authorizations of `userAddress`
+ */
+export const forgetDecryptionKeys = (userAddress: string) => forgetAuthorizations(userAddress);
+
+/**
+ * Whether `userAddress` has decryption keys stored on this device
+ */
+export const hasDecryptionKeys = (userAddress: string) => hasAuthorizations(userAddress);
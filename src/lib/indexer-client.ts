@@ -0,0 +1,63 @@
+import type { Proposal, TallyStatus, VoteRecord } from "./dao-client";
+
+interface IndexedProposal extends Omit<Proposal, "amount"> {
+  /** Wei, as a decimal string */
+  amount: string;
+  finalized: boolean;
+  decryptionPending: boolean;
+  tally: TallyStatus["tally"];
+  voteCount: number;
+}
+
+export type IndexedProposalWithStatus = Proposal & TallyStatus & { voteCount: number };
+
+export type IndexedVote = VoteRecord;
+
+export interface IndexedActivity {
+  contract: string;
+  event: string;
+  proposalId: number | null;
+  account: string | null;
+  /** Decoded event arguments; uint values as decimal strings */
+  args: Record<string, string | boolean>;
+  blockNumber: number;
+  /** Unix timestamp (seconds) of the block */
+  timestamp: number;
+  txHash: string;
+}
+
+export interface IndexerClient {
+  /** Newest block indexed, or null before the first pass */
+  getLastBlock: () => Promise<number | null>;
+  listProposals: (account?: string) => Promise<IndexedProposalWithStatus[]>;
+  getVoters: (id: number) => Promise<IndexedVote[]>;
+  getDeposits: (account?: string) => Promise<IndexedActivity[]>;
+  getActivity: (account: string) => Promise<IndexedActivity[]>;
+}
+
+/**
+ * Client for the REST API served by the indexer in indexer/
+ */
+export const createIndexerClient = (baseUrl: string): IndexerClient => {
+  const get = async <T>(path: string, params: Record<string, string | undefined> = {}): Promise<T> => {
+    const query = new URLSearchParams(
+      Object.entries(params).filter((entry): entry is [string, string] => entry[1] !== undefined)
+    ).toString();
+    const response = await fetch(`${baseUrl}${path}${query ? `?${query}` : ""}`);
+    if (!response.ok) {
+      throw new Error(`Indexer request ${path} failed with status ${response.status}`);
+    }
+    return response.json();
+  };
+
+  return {
+    getLastBlock: async () => (await get<{ lastBlock: number | null }>("/health")).lastBlock,
+    listProposals: async (account) => {
+      const proposals = await get<IndexedProposal[]>("/proposals", { account });
+      return proposals.map((proposal) => ({ ...proposal, amount: BigInt(proposal.amount) }));
+    },
+    getVoters: (id) => get(`/proposals/${id}/voters`),
+    getDeposits: (account) => get("/deposits", { account }),
+    getActivity: (account) => get(`/accounts/${account}/activity`),
+  };
+};
@@ -0,0 +1,74 @@
+import { Contract, type BaseContract, type ContractRunner, type Provider, type Result } from "ethers";
+import { MULTICALL3_ADDRESS } from "@/config/contracts";
+
+const MULTICALL3_ABI = [
+  "function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)",
+];
+
+// Calls per eth_call; keeps each request well under RPC gas and payload limits
+export const MULTICALL_CHUNK_SIZE = 100;
+
+export interface ContractCall {
+  contract: BaseContract;
+  method: string;
+  args: unknown[];
+}
+
+// Whether Multicall3 exists on a given provider's chain (e.g. not on a bare Hardhat node)
+const multicallSupport = new WeakMap<Provider, Promise<boolean>>();
+
+const hasMulticall = (provider: Provider) => {
+  let supported = multicallSupport.get(provider);
+  if (!supported) {
+    supported = provider.getCode(MULTICALL3_ADDRESS).then((code) => code !== "0x", () => false);
+    multicallSupport.set(provider, supported);
+  }
+  return supported;
+};
+
+const encodeCall = async ({ contract, method, args }: ContractCall) => ({
+  target: await contract.getAddress(),
+  allowFailure: false,
+  callData: contract.interface.encodeFunctionData(method, args),
+});
+
+/**
+ * Run read-only calls in batches of `chunkSize` through Multicall3, one
+ * eth_call per chunk. Falls back to parallel individual calls when Multicall3
+ * is not deployed. Results come back decoded, in the order of `calls`.
+ */
+export const multicall = async (
+  runner: ContractRunner,
+  calls: ContractCall[],
+  chunkSize = MULTICALL_CHUNK_SIZE
+): Promise<Result[]> => {
+  const provider = runner.provider;
+  if (!provider) {
+    throw new Error("multicall requires a runner with a provider");
+  }
+  if (calls.length === 0) return [];
+
+  const encoded = await Promise.all(calls.map(encodeCall));
+  const decode = (call: ContractCall, data: string) =>
+    call.contract.interface.decodeFunctionResult(call.method, data);
+
+  if (!(await hasMulticall(provider))) {
+    return Promise.all(encoded.map(async ({ target, callData }, i) =>
+      decode(calls[i], await provider.call({ to: target, data: callData }))
+    ));
+  }
+
+  const multicall3 = new Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, provider);
+  const chunks: Promise<Result[]>[] = [];
+
+  for (let start = 0; start < calls.length; start += chunkSize) {
+    const chunk = encoded.slice(start, start + chunkSize);
+    chunks.push(
+      multicall3.aggregate3.staticCall(chunk).then((results: { returnData: string }[]) =>
+        results.map(({ returnData }, i) => decode(calls[start + i], returnData))
+      )
+    );
+  }
+
+  return (await Promise.all(chunks)).flat();
+};
@@ -1,6 +1,19 @@
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
+import { parseEther } from "ethers";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+/**
+ * Parse a positive ETH amount typed by the user into wei, or null if invalid
+ */
+export function parseEthAmount(value: string): bigint | null {
+  try {
+    const wei = parseEther(value.trim());
+    return wei > 0n ? wei : null;
+  } catch {
+    return null;
+  }
+}
@@ -152,14 +152,14 @@ const Docs = () => {
                   <Vote className="w-6 h-6 text-primary" />
                 </div>
                 <div className="flex-1">
-                  <h3 className="text-xl font-bold mb-2">4. Proposal Finalization (Coming Soon)</h3>
+                  <h3 className="text-xl font-bold mb-2">4. Proposal Finalization</h3>
                   <p className="text-muted-foreground mb-3">
-                    After the voting period ends, anyone can trigger finalization:
+                    After the voting period ends, the proposer or the DAO owner clicks "Finalize" on the proposal:
                   </p>
                   <ul className="list-disc list-inside text-muted-foreground space-y-2">
                     <li>The contract requests decryption of the encrypted vote tallies</li>
-                    <li>Results become public (total YES votes vs NO votes)</li>
-                    <li>If YES wins, the proposal can be executed</li>
+                    <li>The decryption oracle publishes the results on-chain (total YES votes vs NO votes)</li>
+                    <li>The proposal is marked Passed or Rejected; the owner sees every proposal still awaiting finalization</li>
                   </ul>
                 </div>
               </div>
@@ -388,7 +388,7 @@ const Docs = () => {
                   <strong>Web3 Integration:</strong> Wagmi v2, RainbowKit, Ethers.js v6
                 </p>
                 <p className="text-muted-foreground">
-                  <strong>FHE SDK:</strong> Loaded from CDN (https://cdn.zama.ai/relayer-sdk-js/0.2.0)
+                  <strong>FHE SDK:</strong> @zama-fhe/relayer-sdk, bundled and lazy-loaded
                 </p>
               </div>
 
@@ -0,0 +1,233 @@
+import { useEffect, type ReactNode } from 'react';
+import { Link, useNavigate } from 'react-router-dom';
+import { useAccount } from 'wagmi';
+import { useConnectModal } from '@rainbow-me/rainbowkit';
+import { formatEther } from 'ethers';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ArrowDownRight, ArrowLeft, ArrowUpRight, CheckCircle2, Clock, FileText, Vote, Wallet, XCircle } from 'lucide-react';
+import { explorerUrl } from '@/config/chains';
+import { useDeposit, useDepositHistory, useMinDeposit, useProposals, type ProposalWithStatus } from '@/hooks/use-dao';
+
+const ProposalRow = ({ proposal, children }: { proposal: ProposalWithStatus; children?: ReactNode }) => (
+  <li className="flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/50">
+    <Link to={`/proposals/${proposal.id}`} className="font-medium hover:text-primary transition-colors">
+      #{proposal.id} {proposal.title}
+    </Link>
+    <div className="text-sm text-muted-foreground shrink-0">{children}</div>
+  </li>
+);
+
+const Section = ({ title, icon, empty, children }: { title: string; icon: ReactNode; empty: string; children: ReactNode[] }) => (
+  <Card className="p-6 shadow-warm">
+    <h2 className="text-xl font-bold mb-4 flex items-center gap-2">
+      {icon}
+      {title}
+    </h2>
+    {children.length === 0 ? (
+      <p className="text-sm text-muted-foreground">{empty}</p>
+    ) : (
+      <ul className="space-y-2">{children}</ul>
+    )}
+  </Card>
+);
+
+const getStatusLabel = (proposal: ProposalWithStatus, now: number) => {
+  if (proposal.tally) return proposal.tally.passed ? 'Passed' : 'Rejected';
+  if (proposal.finalized) return 'Finalized';
+  return proposal.deadline > now ? 'Active' : 'Awaiting finalization';
+};
+
+const Member = () => {
+  const navigate = useNavigate();
+  const { address } = useAccount();
+  const { openConnectModal } = useConnectModal();
+  const { data: deposit = 0n } = useDeposit(address);
+  const { data: minDeposit = 0n } = useMinDeposit();
+  const { data: proposals, isLoading: proposalsLoading } = useProposals();
+  const { data: history, isLoading: historyLoading, isError: historyError } = useDepositHistory(address);
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, []);
+
+  const now = Math.floor(Date.now() / 1000);
+  const canVote = deposit >= minDeposit;
+
+  const all = proposals ?? [];
+  const created = all.filter((proposal) => proposal.proposer.toLowerCase() === address?.toLowerCase());
+  const voted = all.filter((proposal) => proposal.hasVoted);
+  const awaitingVote = all.filter((proposal) => !proposal.hasVoted && !proposal.finalized && proposal.deadline > now);
+
+  const renderBody = () => {
+    if (!address) {
+      return (
+        <Card className="p-8 shadow-warm text-center">
+          <h2 className="text-2xl font-bold mb-2">Connect your wallet</h2>
+          <p className="text-muted-foreground mb-6">
+            Connect to see your deposits, proposals and votes.
+          </p>
+          <Button onClick={() => openConnectModal?.()} className="bg-gradient-warm">
+            <Wallet className="w-4 h-4 mr-2" />
+            Connect Wallet
+          </Button>
+        </Card>
+      );
+    }
+
+    return (
+      <div className="space-y-6">
+        <Card className="p-6 shadow-warm">
+          <div className="flex flex-wrap items-center justify-between gap-4">
+            <div>
+              <div className="text-sm text-muted-foreground">Your deposit</div>
+              <div className="text-3xl font-bold">{formatEther(deposit)} ETH</div>
+            </div>
+            <div className="text-right">
+              {canVote ? (
+                <Badge className="bg-gradient-warm text-primary-foreground border-0">
+                  <CheckCircle2 className="w-4 h-4 mr-1" />
+                  Eligible to vote
+                </Badge>
+              ) : (
+                <Badge variant="destructive">
+                  <XCircle className="w-4 h-4 mr-1" />
+                  Not eligible to vote
+                </Badge>
+              )}
+              <div className="text-xs text-muted-foreground mt-2">
+                {canVote
+                  ? `Minimum deposit: ${formatEther(minDeposit)} ETH`
+                  : `Deposit ${formatEther(minDeposit - deposit)} ETH more to reach the ${formatEther(minDeposit)} ETH minimum`}
+              </div>
+            </div>
+          </div>
+        </Card>
+
+        {proposalsLoading ? (
+          <p className="text-muted-foreground">Loading proposals...</p>
+        ) : (
+          <>
+            <Section title="Awaiting your vote" icon={<Clock className="w-5 h-5 text-primary" />} empty="Nothing to vote on right now.">
+              {awaitingVote.map((proposal) => (
+                <ProposalRow key={proposal.id} proposal={proposal}>
+                  Ends {new Date(proposal.deadline * 1000).toLocaleString()}
+                </ProposalRow>
+              ))}
+            </Section>
+
+            <Section title="Proposals you created" icon={<FileText className="w-5 h-5 text-primary" />} empty="You have not created any proposals.">
+              {created.map((proposal) => (
+                <ProposalRow key={proposal.id} proposal={proposal}>
+                  {formatEther(proposal.amount)} ETH · {getStatusLabel(proposal, now)}
+                </ProposalRow>
+              ))}
+            </Section>
+
+            <Section title="Proposals you voted on" icon={<Vote className="w-5 h-5 text-primary" />} empty="You have not voted yet.">
+              {voted.map((proposal) => (
+                <ProposalRow key={proposal.id} proposal={proposal}>
+                  {getStatusLabel(proposal, now)}
+                </ProposalRow>
+              ))}
+            </Section>
+          </>
+        )}
+
+        <Card className="p-6 shadow-warm">
+          <h2 className="text-xl font-bold mb-1 flex items-center gap-2">
+            <Wallet className="w-5 h-5 text-primary" />
+            Deposits & withdrawals
+          </h2>
+          {history?.since != null && (
+            <p className="text-xs text-muted-foreground">
+              Since {new Date(history.since * 1000).toLocaleDateString()}; run the indexer for the full history.
+            </p>
+          )}
+          <div className="mt-4">
+            {historyLoading ? (
+              <p className="text-sm text-muted-foreground">Loading history...</p>
+            ) : historyError ? (
+              <p className="text-sm text-destructive">Could not load your deposit history.</p>
+            ) : !history?.movements.length ? (
+              <p className="text-sm text-muted-foreground">No deposits or withdrawals found.</p>
+            ) : (
+              <ul className="space-y-2">
+                {history.movements.map((movement) => {
+                  const txUrl = explorerUrl('tx', movement.txHash);
+                  const amount = (
+                    <>
+                      {movement.name === 'Deposited' ? '+' : '-'}
+                      {formatEther(movement.amount ?? 0n)} ETH
+                    </>
+                  );
+                  return (
+                    <li
+                      key={`${movement.txHash}-${movement.name}`}
+                      className="flex items-center justify-between gap-4 p-3 rounded-lg bg-muted/50"
+                    >
+                      <div className="flex items-center gap-2">
+                        {movement.name === 'Deposited' ? (
+                          <ArrowDownRight className="w-4 h-4 text-primary" />
+                        ) : (
+                          <ArrowUpRight className="w-4 h-4 text-destructive" />
+                        )}
+                        <span className="font-medium">{movement.name === 'Deposited' ? 'Deposit' : 'Withdrawal'}</span>
+                        <span className="text-xs text-muted-foreground">
+                          {new Date(movement.timestamp * 1000).toLocaleString()}
+                        </span>
+                      </div>
+                      {txUrl ? (
+                        <a
+                          href={txUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="font-mono text-sm hover:text-primary"
+                        >
+                          {amount}
+                        </a>
+                      ) : (
+                        <span className="font-mono text-sm">{amount}</span>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            )}
+          </div>
+        </Card>
+      </div>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <div className="container mx-auto px-6 py-24 max-w-4xl">
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/')}
+          className="mb-8"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Home
+        </Button>
+
+        <div className="mb-8">
+          <h1 className="text-5xl font-bold mb-4">My Governance</h1>
+          {address && <p className="font-mono text-sm text-muted-foreground break-all">{address}</p>}
+        </div>
+
+        {renderBody()}
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default Member;
@@ -0,0 +1,258 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { formatEther } from 'ethers';
+import { toast } from 'sonner';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { ArrowLeft, Clock, Link2, Loader2, Lock, ThumbsDown, ThumbsUp, Vote } from 'lucide-react';
+import { useAccount } from 'wagmi';
+import FinalizeProposal from '@/components/FinalizeProposal';
+import { explorerUrl } from '@/config/chains';
+import { useDaoOwner, useProposal, useProposalVotes } from '@/hooks/use-dao';
+import { decodeContractError } from '@/lib/contract-errors';
+import { canFinalize, type Proposal, type TallyStatus } from '@/lib/dao-client';
+import { getErrorMessage } from '@/lib/fhe-errors';
+
+const formatCountdown = (seconds: number) => {
+  const days = Math.floor(seconds / 86400);
+  const hours = Math.floor((seconds % 86400) / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+  return `${days}d ${hours}h ${minutes}m ${secs}s`;
+};
+
+const getStatus = (proposal: Proposal & TallyStatus, now: number) => {
+  if (proposal.tally) return proposal.tally.passed ? 'Passed' : 'Rejected';
+  if (proposal.decryptionPending) return 'Decryption pending';
+  if (proposal.deadline > now) return 'Active';
+  return 'Awaiting finalization';
+};
+
+const AddressLink = ({ address }: { address: string }) => {
+  const url = explorerUrl('address', address);
+  if (!url) return <span className="font-mono text-sm break-all">{address}</span>;
+
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="font-mono text-sm break-all hover:text-primary"
+    >
+      {address}
+    </a>
+  );
+};
+
+const ProposalDetail = () => {
+  const navigate = useNavigate();
+  const { id: idParam } = useParams();
+  const id = Number(idParam);
+  const validId = Number.isInteger(id) && id >= 0;
+  const { data: proposal, isLoading, error, refetch } = useProposal(validId ? id : undefined);
+  const { data: votes, isLoading: votesLoading, isError: votesError } = useProposalVotes(id, proposal?.deadline);
+  const { address } = useAccount();
+  const { data: owner } = useDaoOwner();
+  const [now, setNow] = useState(() => Math.floor(Date.now() / 1000));
+
+  useEffect(() => {
+    window.scrollTo(0, 0);
+  }, []);
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Math.floor(Date.now() / 1000)), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      toast.success('Link copied to clipboard');
+    } catch {
+      toast.error('Could not copy the link');
+    }
+  };
+
+  const renderBody = () => {
+    if (!validId || decodeContractError(error)?.name === 'ProposalNotFound') {
+      return (
+        <Card className="p-8 shadow-warm text-center">
+          <h1 className="text-3xl font-bold mb-2">Proposal not found</h1>
+          <p className="text-muted-foreground">
+            There is no proposal #{idParam} on the DAO contract.
+          </p>
+        </Card>
+      );
+    }
+
+    if (error) {
+      return (
+        <Card className="p-8 shadow-warm text-center">
+          <h1 className="text-3xl font-bold mb-2">Could not load the proposal</h1>
+          <p className="text-muted-foreground mb-6">{getErrorMessage(error)}</p>
+          <Button variant="outline" onClick={() => refetch()}>
+            Try again
+          </Button>
+        </Card>
+      );
+    }
+
+    if (isLoading || !proposal) {
+      return (
+        <div className="text-center py-12">
+          <p className="text-muted-foreground">Loading proposal...</p>
+        </div>
+      );
+    }
+
+    const timeLeft = proposal.deadline - now;
+
+    return (
+      <>
+        <Card className="p-8 shadow-warm mb-8">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <div className="flex items-center gap-3">
+              <Badge className="bg-gradient-warm text-primary-foreground border-0">
+                {getStatus(proposal, now)}
+              </Badge>
+              <span className="text-sm text-muted-foreground">Proposal #{proposal.id}</span>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleCopyLink}>
+              <Link2 className="w-4 h-4 mr-2" />
+              Copy link
+            </Button>
+          </div>
+
+          <h1 className="text-4xl font-bold mb-4">{proposal.title}</h1>
+          <p className="text-muted-foreground whitespace-pre-wrap mb-6">{proposal.description}</p>
+
+          <div className="flex flex-wrap items-center gap-3 mb-6">
+            <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-muted">
+              <Lock className="w-4 h-4 text-primary" />
+              <span className="text-sm font-medium">Amount: {formatEther(proposal.amount)} ETH</span>
+            </div>
+            <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-muted">
+              <Clock className="w-4 h-4 text-primary" />
+              <span className="text-sm font-medium">
+                {timeLeft > 0 ? `Ends in ${formatCountdown(timeLeft)}` : 'Voting ended'}
+              </span>
+            </div>
+          </div>
+
+          <div className="space-y-2 text-muted-foreground">
+            <div>
+              <div className="text-xs uppercase tracking-wide">Proposer</div>
+              <AddressLink address={proposal.proposer} />
+            </div>
+            <div>
+              <div className="text-xs uppercase tracking-wide">Recipient</div>
+              <AddressLink address={proposal.recipient} />
+            </div>
+            <div>
+              <div className="text-xs uppercase tracking-wide">Deadline</div>
+              <span className="text-sm">{new Date(proposal.deadline * 1000).toLocaleString()}</span>
+            </div>
+          </div>
+
+          {canFinalize(proposal, address, owner, now) && (
+            <div className="mt-6 p-4 rounded-lg bg-primary/5 border border-primary/20 flex items-center justify-between gap-4">
+              <p className="text-xs text-muted-foreground">
+                Voting is closed. As the owner or proposer you can finalize the proposal to publish its results.
+              </p>
+              <FinalizeProposal proposalId={proposal.id} size="sm" />
+            </div>
+          )}
+
+          {proposal.decryptionPending && (
+            <div className="mt-6 flex items-center gap-2 text-sm text-muted-foreground">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Decryption pending - results will be published on-chain shortly
+            </div>
+          )}
+
+          {proposal.tally && (
+            <div className="mt-6 flex items-center gap-3">
+              <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-muted">
+                <ThumbsUp className="w-4 h-4 text-primary" />
+                <span className="text-sm font-medium">Yes: {proposal.tally.yes}</span>
+              </div>
+              <div className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-muted">
+                <ThumbsDown className="w-4 h-4 text-primary" />
+                <span className="text-sm font-medium">No: {proposal.tally.no}</span>
+              </div>
+            </div>
+          )}
+        </Card>
+
+        <Card className="p-8 shadow-warm">
+          <h2 className="text-2xl font-bold mb-2 flex items-center gap-2">
+            <Vote className="w-6 h-6 text-primary" />
+            Votes{votes ? ` (${votes.length})` : ''}
+          </h2>
+          <p className="text-sm text-muted-foreground mb-6">
+            Ballots are encrypted; only who voted and when is public.
+          </p>
+
+          {votesLoading ? (
+            <p className="text-muted-foreground">Loading votes...</p>
+          ) : votesError ? (
+            <p className="text-destructive">Could not load the votes for this proposal.</p>
+          ) : !votes?.length ? (
+            <p className="text-muted-foreground">No votes yet.</p>
+          ) : (
+            <ol className="relative border-l border-border ml-2 space-y-6">
+              {votes.map((vote) => {
+                const txUrl = explorerUrl('tx', vote.txHash);
+                return (
+                  <li key={vote.txHash} className="ml-6">
+                    <span className="absolute -left-1.5 mt-1.5 w-3 h-3 rounded-full bg-gradient-warm" />
+                    <AddressLink address={vote.voter} />
+                    <div className="text-xs text-muted-foreground flex flex-wrap gap-x-3">
+                      <span>{new Date(vote.timestamp * 1000).toLocaleString()}</span>
+                      {txUrl && (
+                        <a
+                          href={txUrl}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="underline hover:text-primary"
+                        >
+                          View transaction
+                        </a>
+                      )}
+                    </div>
+                  </li>
+                );
+              })}
+            </ol>
+          )}
+        </Card>
+      </>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Header />
+
+      <div className="container mx-auto px-6 py-24 max-w-4xl">
+        <Button
+          variant="ghost"
+          onClick={() => navigate('/')}
+          className="mb-8"
+        >
+          <ArrowLeft className="w-4 h-4 mr-2" />
+          Back to Proposals
+        </Button>
+
+        {renderBody()}
+      </div>
+
+      <Footer />
+    </div>
+  );
+};
+
+export default ProposalDetail;
@@ -0,0 +1,217 @@
+const { expect } = require("chai");
+const hre = require("hardhat");
+const { time } = require("@nomicfoundation/hardhat-network-helpers");
+
+const MIN_DEPOSIT = hre.ethers.parseEther("0.001");
+
+// Deployed afresh for every test: the mock coprocessor's handle database does
+// not follow loadFixture's snapshot reverts
+async function deployDao() {
+  const [owner, alice, bob, carol] = await hre.ethers.getSigners();
+
+  const dao = await hre.ethers.deployContract("SimpleTreasuryDAO", [MIN_DEPOSIT]);
+  await dao.waitForDeployment();
+  const address = await dao.getAddress();
+  await hre.fhevm.assertCoprocessorInitialized(dao, "SimpleTreasuryDAO");
+
+  for (const member of [owner, alice, bob]) {
+    await dao.connect(member).deposit({ value: MIN_DEPOSIT });
+  }
+  await dao.createProposal("Fund the garden", "Seeds and tools", hre.ethers.parseEther("0.01"), carol.address, 1);
+
+  return { dao, address, owner, alice, bob, carol };
+}
+
+/** Encrypt a ballot for `voter` on `contractAddress` */
+async function encryptBallot(contractAddress, voter, support) {
+  const input = hre.fhevm.createEncryptedInput(contractAddress, voter.address);
+  input.addBool(support);
+  return input.encrypt();
+}
+
+async function castVote(dao, address, voter, support) {
+  const { handles, inputProof } = await encryptBallot(address, voter, support);
+  return dao.connect(voter).vote(0, handles[0], inputProof);
+}
+
+/** Close voting, finalize and let the mock oracle publish the tally */
+async function publishTally(dao) {
+  await time.increase(2 * 24 * 60 * 60);
+  await dao.finalizeProposal(0);
+  await hre.fhevm.awaitDecryptionOracle();
+  return dao.tallies(0);
+}
+
+describe("SimpleTreasuryDAO", function () {
+  before(function () {
+    // Encrypted inputs and the decryption oracle are only mocked on the Hardhat network
+    if (!hre.fhevm.isMock) this.skip();
+  });
+
+  describe("vote", function () {
+    it("counts a yes ballot", async function () {
+      const { dao, address, alice } = await deployDao();
+
+      await expect(castVote(dao, address, alice, true)).to.emit(dao, "VoteCast").withArgs(0, alice.address);
+      expect(await dao.hasVoted(0, alice.address)).to.equal(true);
+
+      const tally = await publishTally(dao);
+      expect(tally.published).to.equal(true);
+      expect(tally.yesVotes).to.equal(1n);
+      expect(tally.noVotes).to.equal(0n);
+      expect(tally.passed).to.equal(true);
+    });
+
+    it("counts a no ballot", async function () {
+      const { dao, address, alice } = await deployDao();
+
+      await castVote(dao, address, alice, false);
+
+      const tally = await publishTally(dao);
+      expect(tally.yesVotes).to.equal(0n);
+      expect(tally.noVotes).to.equal(1n);
+      expect(tally.passed).to.equal(false);
+    });
+
+    it("tallies ballots from several members", async function () {
+      const { dao, address, owner, alice, bob } = await deployDao();
+
+      await castVote(dao, address, owner, true);
+      await castVote(dao, address, alice, true);
+      await castVote(dao, address, bob, false);
+
+      const tally = await publishTally(dao);
+      expect(tally.yesVotes).to.equal(2n);
+      expect(tally.noVotes).to.equal(1n);
+      expect(tally.passed).to.equal(true);
+    });
+
+    it("rejects a second vote from the same account", async function () {
+      const { dao, address, alice } = await deployDao();
+
+      await castVote(dao, address, alice, true);
+
+      await expect(castVote(dao, address, alice, false)).to.be.revertedWithCustomError(dao, "AlreadyVoted");
+    });
+
+    it("rejects a ballot encrypted for another account", async function () {
+      const { dao, address, alice, bob } = await deployDao();
+
+      const { handles, inputProof } = await encryptBallot(address, bob, true);
+
+      await expect(dao.connect(alice).vote(0, handles[0], inputProof)).to.be.reverted;
+      expect(await dao.hasVoted(0, alice.address)).to.equal(false);
+    });
+
+    it("rejects a ballot encrypted for another contract", async function () {
+      const { dao, alice, carol } = await deployDao();
+
+      const { handles, inputProof } = await encryptBallot(carol.address, alice, true);
+
+      await expect(dao.connect(alice).vote(0, handles[0], inputProof)).to.be.reverted;
+    });
+
+    it("rejects a tampered input proof", async function () {
+      const { dao, address, alice } = await deployDao();
+
+      const { handles, inputProof } = await encryptBallot(address, alice, true);
+      // Flip a byte of the coprocessor signature, after the two count bytes and the handle
+      const tampered = Uint8Array.from(inputProof);
+      tampered[2 + 32 + 10] ^= 0xff;
+
+      await expect(dao.connect(alice).vote(0, handles[0], tampered)).to.be.reverted;
+      await expect(dao.connect(alice).vote(0, handles[0], "0x")).to.be.reverted;
+    });
+
+    it("rejects a ballot that is not an ebool", async function () {
+      const { dao, address, alice } = await deployDao();
+
+      const input = hre.fhevm.createEncryptedInput(address, alice.address);
+      input.add64(7);
+      const { handles, inputProof } = await input.encrypt();
+
+      await expect(dao.connect(alice).vote(0, handles[0], inputProof)).to.be.reverted;
+      expect(await dao.hasVoted(0, alice.address)).to.equal(false);
+    });
+
+    it("rejects voters below the minimum deposit", async function () {
+      const { dao, address, carol } = await deployDao();
+
+      await expect(castVote(dao, address, carol, true)).to.be.revertedWithCustomError(dao, "InsufficientDeposit");
+    });
+
+    it("rejects votes after the deadline", async function () {
+      const { dao, address, alice } = await deployDao();
+
+      await time.increase(2 * 24 * 60 * 60);
+
+      await expect(castVote(dao, address, alice, true)).to.be.revertedWithCustomError(dao, "VotingEnded");
+    });
+  });
+
+  describe("getProposals", function () {
+    it("pages through proposals and is empty from the end on", async function () {
+      const { dao, carol } = await deployDao();
+      for (const title of ["Second", "Third"]) {
+        await dao.createProposal(title, "", 1n, carol.address, 1);
+      }
+      const ids = async (offset, limit) => (await dao.getProposals(offset, limit)).map((proposal) => proposal.id);
+
+      expect(await ids(0, 2)).to.deep.equal([0n, 1n]);
+      expect(await ids(2, 2)).to.deep.equal([2n]);
+      expect(await ids(1, 0)).to.deep.equal([]);
+      expect(await ids(3, 2)).to.deep.equal([]);
+      expect(await ids(10, 2)).to.deep.equal([]);
+
+      const [first] = await dao.getProposals(0, 1);
+      expect(first.title).to.equal("Fund the garden");
+      expect(first.recipient).to.equal(carol.address);
+      expect(first.finalized).to.equal(false);
+    });
+  });
+
+  describe("onTallyDecrypted", function () {
+    it("clears decryptionPending and emits TallyPublished", async function () {
+      const { dao, address, alice } = await deployDao();
+      await castVote(dao, address, alice, true);
+
+      await time.increase(2 * 24 * 60 * 60);
+      await dao.finalizeProposal(0);
+      expect(await dao.decryptionPending(0)).to.equal(true);
+
+      await hre.fhevm.awaitDecryptionOracle();
+
+      expect(await dao.decryptionPending(0)).to.equal(false);
+      const events = await dao.queryFilter(dao.filters.TallyPublished(0));
+      expect(events).to.have.length(1);
+      expect(events[0].args.toObject()).to.deep.equal({ id: 0n, yesVotes: 1n, noVotes: 0n, passed: true });
+    });
+
+    it("does not pass a tied proposal", async function () {
+      const { dao, address, owner, alice } = await deployDao();
+
+      await castVote(dao, address, owner, true);
+      await castVote(dao, address, alice, false);
+
+      const tally = await publishTally(dao);
+      expect(tally.yesVotes).to.equal(1n);
+      expect(tally.noVotes).to.equal(1n);
+      expect(tally.passed).to.equal(false);
+    });
+
+    it("rejects a replayed callback", async function () {
+      const { dao, address, alice } = await deployDao();
+      await castVote(dao, address, alice, true);
+      await publishTally(dao);
+
+      // Resend the oracle's own, correctly signed, callback transaction
+      const [published] = await dao.queryFilter(dao.filters.TallyPublished(0));
+      const callback = await published.getTransaction();
+
+      await expect(alice.sendTransaction({ to: address, data: callback.data })).to.be.revertedWithCustomError(
+        dao,
+        "UnknownDecryptionRequest"
+      );
+    });
+  });
+});